@@ -1,6 +1,17 @@
-import { ItemView, WorkspaceLeaf, MarkdownRenderer, Menu } from 'obsidian';
+import { ItemView, WorkspaceLeaf, MarkdownRenderer, Menu, Notice, TFile, TFolder } from 'obsidian';
 import type OpenCodePlugin from './main';
-import { ChatMessage, ToolEvent, StepFinishEvent, Conversation } from './types';
+import { ChatMessage, ToolEvent, ToolReview, StepFinishEvent, Conversation, ContextAttachment, FileAttachment, PromptOptions } from './types';
+import { EditReview } from './EditReview';
+import { ConfirmModal } from './ConfirmModal';
+import { ConversationExporter } from './ConversationExporter';
+import { HistorySearchModal } from './HistorySearchModal';
+import { ForkTreeModal } from './ForkTreeModal';
+import { MentionSuggest } from './MentionSuggest';
+import { buildPromptWithContext, getAttachmentLabel, resolveAttachment } from './ContextAttachments';
+import { SlashCommand, SlashCommandSuggest, expandCommandTemplate, parseSlashCommand } from './SlashCommands';
+import { PromptTemplate, fillPromptTemplate, getPromptTemplates, resolveTemplateModel } from './PromptTemplates';
+import { PromptTemplateModal, TemplateVariablesModal } from './PromptTemplateModal';
+import { createFileAttachment, getAttachmentResourceUrl, getDroppedFilePath, isImageAttachment, saveFileAttachment } from './FileAttachments';
 
 export const VIEW_TYPE_OPENCODE_CHAT = 'opencode-chat-view';
 
@@ -10,14 +21,30 @@ export class OpenCodeChatView extends ItemView {
 	private inputContainer: HTMLElement;
 	private inputField: HTMLTextAreaElement;
 	private statusArea: HTMLElement;
+	private contextMeterEl: HTMLElement;
+	private contextChipsEl: HTMLElement;
+	private pendingContext: ContextAttachment[] = [];
+	private pendingFiles: FileAttachment[] = [];
+	private mentionSuggest: MentionSuggest;
+	private slashSuggest: SlashCommandSuggest;
 	private historyBtn: HTMLElement;
 	private currentAssistantContent: string = '';
 	private currentAssistantEl: HTMLElement | null = null;
+	private currentReasoningContent: string = '';
+	private currentReasoningEl: HTMLElement | null = null;
 	private isStreaming: boolean = false;
+	private isCompacting: boolean = false;
+	private modelSelector: HTMLSelectElement;
+	private sendBtn: HTMLButtonElement;
+	private liveTools: Map<string, { el: HTMLElement; event: ToolEvent; messageId: string | null }> = new Map();
+	private processListeners: [string, (...args: any[]) => void][] = [];
+	private editReview: EditReview;
+	private reviewRenders: WeakMap<HTMLElement, number> = new WeakMap();
 
 	constructor(leaf: WorkspaceLeaf, plugin: OpenCodePlugin) {
 		super(leaf);
 		this.plugin = plugin;
+		this.editReview = new EditReview(this.app);
 	}
 
 	getViewType(): string {
@@ -39,8 +66,12 @@ export class OpenCodeChatView extends ItemView {
 
 		this.createHeader(container as HTMLElement);
 		this.messagesContainer = container.createDiv({ cls: 'opencode-messages' });
+		this.contextMeterEl = container.createDiv({ cls: 'opencode-context-meter' });
+		this.contextMeterEl.addEventListener('click', () => this.confirmCompaction());
+		this.contextChipsEl = container.createDiv({ cls: 'opencode-context-chips' });
 		this.inputContainer = container.createDiv({ cls: 'opencode-input-container' });
 		this.createInputArea();
+		this.setupDropTarget(container as HTMLElement);
 		this.setupProcessListeners();
 
 		await this.loadConversation();
@@ -48,11 +79,55 @@ export class OpenCodeChatView extends ItemView {
 
 	private async loadConversation(): Promise<void> {
 		const conversation = this.plugin.conversationStore.getOrCreateActiveConversation();
+		if (conversation.sessionID && !this.plugin.processManager?.getState().sessionID) {
+			this.plugin.processManager?.setSessionID(conversation.sessionID);
+		}
+		this.renderConversation(conversation);
+	}
+
+	/**
+	 * Switches to the conversation bound to a session started elsewhere,
+	 * creating one if the session has not been seen in chat yet.
+	 */
+	continueSession(sessionID: string): void {
+		const store = this.plugin.conversationStore;
+		const existing = store.getConversationBySessionID(sessionID);
+		const conversation = existing
+			? store.setActiveConversation(existing.id)
+			: store.createConversation('Terminal session');
+
+		if (!conversation) return;
+
+		if (!existing) {
+			store.updateConversation(conversation.id, { sessionID });
+		}
+		this.plugin.processManager?.setSessionID(sessionID);
 		this.renderConversation(conversation);
+		if (!existing) {
+			this.addSystemMessage(`🔗 Continuing terminal session ${sessionID}`);
+		}
 	}
 
 	private async renderConversation(conversation: Conversation): Promise<void> {
 		this.messagesContainer.empty();
+		this.liveTools.clear();
+
+		const parent = conversation.parentId
+			? this.plugin.conversationStore.getForkFamily(conversation.id).find(c => c.id === conversation.parentId)
+			: null;
+		if (parent) {
+			const bannerEl = this.messagesContainer.createDiv({ cls: 'opencode-fork-banner' });
+			bannerEl.appendText('⑂ Forked from ');
+			const linkEl = bannerEl.createEl('a', { text: parent.title, href: '#' });
+			linkEl.addEventListener('click', (e) => {
+				e.preventDefault();
+				if (conversation.forkedFromMessageId) {
+					this.revealMessage(parent.id, conversation.forkedFromMessageId);
+				} else {
+					this.switchConversation(parent.id);
+				}
+			});
+		}
 
 		if (conversation.messages.length === 0) {
 			this.addSystemMessage('Welcome to Master of OpenCode! 🚀\nPowered by OpenCode CLI with multi-model support.');
@@ -60,21 +135,28 @@ export class OpenCodeChatView extends ItemView {
 			for (const msg of conversation.messages) {
 				await this.renderMessage(msg);
 			}
+			this.updateRegenerateAction();
 		}
+		this.updateContextMeter();
 	}
 
 	private async renderMessage(msg: ChatMessage): Promise<void> {
+		const previous = this.messagesContainer.lastElementChild;
 		switch (msg.role) {
 			case 'user':
-				this.renderUserMessage(msg.content);
+				this.renderUserMessage(msg);
+				break;
+			case 'reasoning':
+				await this.renderReasoningMessage(msg.content);
 				break;
 			case 'assistant':
-				await this.renderAssistantMessage(msg.content);
+				await this.renderAssistantMessage(msg.content, msg.interrupted);
 				break;
 			case 'tool':
 				if (msg.toolName && msg.toolStatus) {
 					this.renderToolMessage({
 						name: msg.toolName,
+						callID: msg.toolCallID || msg.id,
 						status: msg.toolStatus,
 						title: msg.toolTitle,
 						input: msg.toolInput,
@@ -84,24 +166,297 @@ export class OpenCodeChatView extends ItemView {
 				break;
 			case 'system':
 				this.addSystemMessage(msg.content);
+				if (msg.compaction) {
+					const details = (this.messagesContainer.lastElementChild as HTMLElement).createEl('details', { cls: 'opencode-compaction-summary' });
+					details.createEl('summary', { text: 'Summary' });
+					details.createDiv({ text: msg.compaction });
+				}
 				break;
 		}
+
+		const msgEl = this.messagesContainer.lastElementChild;
+		if (msgEl instanceof HTMLElement && msgEl !== previous) {
+			msgEl.setAttribute('data-message-id', msg.id);
+			if (msg.role === 'assistant') {
+				this.addForkAction(msgEl, msg.id);
+			}
+		}
 	}
 
-	private renderUserMessage(content: string): void {
-		const msgEl = this.messagesContainer.createDiv({ cls: 'opencode-message opencode-message-user' });
+	private renderUserMessage(msg: ChatMessage): void {
+		const msgEl = this.messagesContainer.createDiv({
+			cls: 'opencode-message opencode-message-user',
+			attr: { 'data-message-id': msg.id }
+		});
 		const contentEl = msgEl.createDiv({ cls: 'opencode-message-content' });
-		contentEl.textContent = content;
+		contentEl.textContent = msg.content;
+
+		if (msg.context?.length || msg.files?.length) {
+			const chipsEl = msgEl.createDiv({ cls: 'opencode-context-chips' });
+			msg.files?.forEach(attachment => this.createFileChip(chipsEl, attachment));
+			msg.context?.forEach(attachment => this.createContextChip(chipsEl, attachment));
+		}
+
+		const actionsEl = msgEl.createDiv({ cls: 'opencode-message-actions' });
+		const restoreBtn = actionsEl.createEl('button', {
+			cls: 'opencode-btn opencode-btn-icon',
+			text: '↺',
+			attr: { title: 'Restore vault to before this message' }
+		});
+		restoreBtn.addEventListener('click', () => this.confirmRestore(msg.id));
+
+		const editBtn = actionsEl.createEl('button', {
+			cls: 'opencode-btn opencode-btn-icon',
+			text: '✏️',
+			attr: { title: 'Edit and resend' }
+		});
+		editBtn.addEventListener('click', () => this.startEditing(msgEl, msg));
+		this.addForkAction(msgEl, msg.id);
+
+		const versions = msg.responseVersions;
+		const conversation = this.plugin.conversationStore.getActiveConversation();
+		const lastPrompt = conversation?.messages.filter(m => m.role === 'user').pop();
+		if (versions && versions.length > 1 && lastPrompt?.id === msg.id) {
+			const current = msg.activeVersion ?? 0;
+			const pagerEl = msgEl.createDiv({ cls: 'opencode-version-pager' });
+			const prevBtn = pagerEl.createEl('button', {
+				cls: 'opencode-btn opencode-btn-icon',
+				text: '‹',
+				attr: { title: 'Previous answer' }
+			});
+			pagerEl.createSpan({ text: `Answer ${current + 1}/${versions.length}` });
+			const nextBtn = pagerEl.createEl('button', {
+				cls: 'opencode-btn opencode-btn-icon',
+				text: '›',
+				attr: { title: 'Next answer' }
+			});
+			prevBtn.disabled = current === 0;
+			nextBtn.disabled = current === versions.length - 1;
+			prevBtn.addEventListener('click', () => this.showResponseVersion(msg.id, current - 1));
+			nextBtn.addEventListener('click', () => this.showResponseVersion(msg.id, current + 1));
+		}
+	}
+
+	private startEditing(msgEl: HTMLElement, msg: ChatMessage): void {
+		if (this.isBusy()) return;
+
+		const contentEl = msgEl.querySelector('.opencode-message-content') as HTMLElement;
+		contentEl.empty();
+		msgEl.addClass('is-editing');
+
+		const editor = contentEl.createEl('textarea', { cls: 'opencode-edit-input' });
+		editor.value = msg.content;
+		const buttonsEl = contentEl.createDiv({ cls: 'opencode-edit-actions' });
+		const cancelBtn = buttonsEl.createEl('button', { cls: 'opencode-btn', text: 'Cancel' });
+		const resendBtn = buttonsEl.createEl('button', { cls: 'opencode-btn mod-cta', text: 'Save & Resend' });
+
+		const cancel = () => {
+			msgEl.removeClass('is-editing');
+			contentEl.empty();
+			contentEl.textContent = msg.content;
+		};
+		const resend = () => {
+			const content = editor.value.trim();
+			if (!content) return;
+			this.resendFrom(msg.id, content);
+		};
+
+		cancelBtn.addEventListener('click', cancel);
+		resendBtn.addEventListener('click', resend);
+		editor.addEventListener('keydown', (e) => {
+			if (e.key === 'Escape') {
+				cancel();
+			} else if (e.key === 'Enter' && !e.shiftKey) {
+				e.preventDefault();
+				resend();
+			}
+		});
+		editor.focus();
+	}
+
+	/**
+	 * Re-runs a user message in a new session seeded with the turns before
+	 * it. With `content`, the message is edited and everything after it is
+	 * dropped; without, the current answer is kept as an alternate version.
+	 */
+	private async resendFrom(messageId: string, content?: string): Promise<void> {
+		if (this.isBusy()) return;
+
+		const store = this.plugin.conversationStore;
+		const conversation = store.getActiveConversation();
+		const index = conversation?.messages.findIndex(m => m.id === messageId) ?? -1;
+		if (!conversation || index === -1) return;
+		if (!this.plugin.checkBudget(message => this.addSystemMessage(message))) return;
+
+		if (content !== undefined) {
+			store.truncateAfter(conversation.id, messageId);
+			store.updateMessage(conversation.id, messageId, {
+				content,
+				responseVersions: undefined,
+				activeVersion: undefined
+			});
+		} else {
+			store.startResponseVersion(conversation.id, messageId);
+		}
+
+		const prompt = conversation.messages[index];
+		const history = conversation.messages.slice(0, index);
+		store.updateConversation(conversation.id, {
+			sessionID: null,
+			seedPending: false,
+			model: this.plugin.processManager?.getModelArg()
+		});
+		this.plugin.processManager?.setSessionID(null);
+		this.plugin.checkpointManager.queue(conversation.id, messageId);
+
+		await this.renderConversation(conversation);
+		this.currentAssistantContent = '';
+		this.scrollToBottom();
+
+		try {
+			await this.plugin.processManager?.sendMessage(buildPromptWithContext(prompt.content, prompt.context), history, prompt.files);
+		} catch (error) {
+			this.addSystemMessage(`❌ Failed to send message: ${error}`);
+		}
+	}
+
+	private async regenerate(): Promise<void> {
+		const conversation = this.plugin.conversationStore.getActiveConversation();
+		const lastPrompt = conversation?.messages.filter(m => m.role === 'user').pop();
+		if (lastPrompt) {
+			await this.resendFrom(lastPrompt.id);
+		}
+	}
+
+	private async showResponseVersion(messageId: string, version: number): Promise<void> {
+		if (this.isBusy()) return;
+
+		const store = this.plugin.conversationStore;
+		const conversation = store.getActiveConversation();
+		if (!conversation || !store.switchResponseVersion(conversation.id, messageId, version)) return;
+
+		// The OpenCode session only knows the latest answer; reseed on the next message
+		store.updateConversation(conversation.id, { sessionID: null, seedPending: true });
+		this.plugin.processManager?.setSessionID(null);
+		await this.renderConversation(conversation);
+	}
+
+	/**
+	 * Puts the regenerate button on the latest assistant answer.
+	 */
+	private updateRegenerateAction(): void {
+		this.messagesContainer.querySelectorAll('.opencode-regenerate-btn').forEach(el => el.remove());
+
+		const answers = this.messagesContainer.querySelectorAll('.opencode-message-assistant[data-message-id]');
+		const lastAnswer = answers[answers.length - 1] as HTMLElement | undefined;
+		if (!lastAnswer) return;
+
+		const actionsEl = lastAnswer.querySelector('.opencode-message-actions') as HTMLElement ||
+			lastAnswer.createDiv({ cls: 'opencode-message-actions' });
+		const regenerateBtn = actionsEl.createEl('button', {
+			cls: 'opencode-btn opencode-btn-icon opencode-regenerate-btn',
+			text: '🔄',
+			attr: { title: 'Regenerate with the selected model' }
+		});
+		regenerateBtn.addEventListener('click', () => this.regenerate());
+	}
+
+	private isBusy(): boolean {
+		if (this.isStreaming || this.isCompacting || this.plugin.processManager?.getState().isRunning) {
+			new Notice('Wait for the current run to finish');
+			return true;
+		}
+		return false;
+	}
+
+	private addForkAction(msgEl: HTMLElement, messageId: string): void {
+		const actionsEl = msgEl.querySelector('.opencode-message-actions') as HTMLElement ||
+			msgEl.createDiv({ cls: 'opencode-message-actions' });
+		const forkBtn = actionsEl.createEl('button', {
+			cls: 'opencode-btn opencode-btn-icon',
+			text: '⑂',
+			attr: { title: 'Fork from here' }
+		});
+		forkBtn.addEventListener('click', () => this.forkFrom(messageId));
+	}
+
+	private async forkFrom(messageId: string): Promise<void> {
+		if (this.isBusy()) return;
+
+		const store = this.plugin.conversationStore;
+		const source = store.getActiveConversation();
+		const fork = source && store.forkConversation(source.id, messageId);
+		if (!fork) return;
+
+		await this.switchConversation(fork.id);
+		this.addSystemMessage(`⑂ Forked from "${source.title}". The next message starts a new session with this history.`);
+	}
+
+	private confirmRestore(messageId: string): void {
+		const checkpoint = this.plugin.checkpointManager.getCheckpointForMessage(messageId);
+		if (!checkpoint) {
+			new Notice('No vault changes were recorded for this message');
+			return;
+		}
+
+		const files = checkpoint.files.map(f => f.path).join(', ');
+		new ConfirmModal(
+			this.app,
+			`Restore the vault to before this message? Changes from this and all later turns will be undone (${files}).`,
+			'Restore',
+			async () => {
+				try {
+					const result = await this.plugin.checkpointManager.restoreToBefore(messageId);
+					this.addSystemMessage(`↺ Restored ${result.restored.length} file(s) to before this message` +
+						(result.skipped.length ? `\n⚠️ No snapshot for: ${result.skipped.join(', ')}` : ''));
+				} catch (error) {
+					this.addSystemMessage(`❌ Restore failed: ${error instanceof Error ? error.message : error}`);
+				}
+			}
+		).open();
 	}
 
-	private async renderAssistantMessage(content: string): Promise<void> {
+	private async renderAssistantMessage(content: string, interrupted?: boolean): Promise<void> {
 		const msgEl = this.messagesContainer.createDiv({ cls: 'opencode-message opencode-message-assistant' });
 		const contentEl = msgEl.createDiv({ cls: 'opencode-message-content' });
 		await MarkdownRenderer.render(this.app, content, contentEl, '', this.plugin);
+		if (interrupted) {
+			this.addInterruptedMarker(msgEl);
+		}
+	}
+
+	private async renderReasoningMessage(content: string): Promise<void> {
+		const msgEl = this.createReasoningElement();
+		const contentEl = msgEl.querySelector('.opencode-reasoning-content') as HTMLElement;
+		await MarkdownRenderer.render(this.app, content, contentEl, '', this.plugin);
+	}
+
+	private createReasoningElement(): HTMLElement {
+		const msgEl = this.messagesContainer.createDiv({ cls: 'opencode-message opencode-message-reasoning' });
+		const block = msgEl.createDiv({ cls: 'opencode-reasoning-block' });
+		const header = block.createDiv({ cls: 'opencode-reasoning-header' });
+		const toggleBtn = header.createEl('button', { cls: 'opencode-tool-toggle', text: '▶' });
+		header.createSpan({ text: '💭 Thinking', cls: 'opencode-reasoning-title' });
+		const contentEl = block.createDiv({ cls: 'opencode-reasoning-content collapsed' });
+
+		header.addEventListener('click', () => {
+			contentEl.toggleClass('collapsed', !contentEl.hasClass('collapsed'));
+			toggleBtn.textContent = contentEl.hasClass('collapsed') ? '▶' : '▼';
+		});
+
+		return msgEl;
+	}
+
+	private addInterruptedMarker(msgEl: HTMLElement): void {
+		msgEl.addClass('interrupted');
+		msgEl.createDiv({ cls: 'opencode-interrupted-marker', text: '⏹ Interrupted' });
 	}
 
 	private renderToolMessage(event: ToolEvent): void {
-		const msgEl = this.messagesContainer.createDiv({ cls: 'opencode-message opencode-message-tool' });
+		const msgEl = this.messagesContainer.createDiv({
+			cls: 'opencode-message opencode-message-tool',
+			attr: { 'data-tool-id': event.callID }
+		});
 		this.updateToolElement(msgEl, event);
 	}
 
@@ -113,16 +468,13 @@ export class OpenCodeChatView extends ItemView {
 		titleArea.createSpan({ text: 'OpenCode', cls: 'opencode-title' });
 
 		const modelArea = header.createDiv({ cls: 'opencode-header-model' });
-		const modelSelector = modelArea.createEl('select', { cls: 'opencode-model-selector' });
+		this.modelSelector = modelArea.createEl('select', { cls: 'opencode-model-selector' });
 		
-		this.loadModelsIntoSelector(modelSelector);
+		this.loadModelsIntoSelector(this.modelSelector);
 
-		modelSelector.addEventListener('change', async (e) => {
+		this.modelSelector.addEventListener('change', async (e) => {
 			const value = (e.target as HTMLSelectElement).value;
-			this.plugin.settings.model = value;
-			const [provider] = value.split('/');
-			this.plugin.settings.provider = provider as any;
-			await this.plugin.saveSettings();
+			await this.plugin.setModel(value);
 			this.plugin.processManager?.clearSession();
 			this.updateStatusIndicator();
 		});
@@ -146,6 +498,13 @@ export class OpenCodeChatView extends ItemView {
 		this.historyBtn.innerHTML = '📜';
 		this.historyBtn.addEventListener('click', (e) => this.showHistoryMenu(e));
 
+		const forksBtn = actionsArea.createEl('button', {
+			cls: 'opencode-btn opencode-btn-icon',
+			attr: { title: 'Conversation Forks' }
+		});
+		forksBtn.innerHTML = '🌿';
+		forksBtn.addEventListener('click', () => this.showForkTree());
+
 		const newChatBtn = actionsArea.createEl('button', {
 			cls: 'opencode-btn opencode-btn-icon',
 			attr: { title: 'New Chat' }
@@ -153,6 +512,20 @@ export class OpenCodeChatView extends ItemView {
 		newChatBtn.innerHTML = '➕';
 		newChatBtn.addEventListener('click', () => this.startNewConversation());
 
+		const exportBtn = actionsArea.createEl('button', {
+			cls: 'opencode-btn opencode-btn-icon',
+			attr: { title: 'Export Chat to Note' }
+		});
+		exportBtn.innerHTML = '💾';
+		exportBtn.addEventListener('click', () => this.plugin.exportActiveConversation());
+
+		const terminalBtn = actionsArea.createEl('button', {
+			cls: 'opencode-btn opencode-btn-icon',
+			attr: { title: 'Continue in Terminal' }
+		});
+		terminalBtn.innerHTML = '💻';
+		terminalBtn.addEventListener('click', () => this.plugin.continueInTerminal());
+
 		const settingsBtn = actionsArea.createEl('button', {
 			cls: 'opencode-btn opencode-btn-icon',
 			attr: { title: 'Settings' }
@@ -166,10 +539,18 @@ export class OpenCodeChatView extends ItemView {
 
 	private showHistoryMenu(e: MouseEvent): void {
 		const menu = new Menu();
-		const conversations = this.plugin.conversationStore.getConversationList();
-		const activeConv = this.plugin.conversationStore.getActiveConversation();
+		const store = this.plugin.conversationStore;
+		const conversations = store.getConversationList();
+		const archived = store.getArchivedList();
+		const activeConv = store.getActiveConversation();
+
+		menu.addItem(item => {
+			item.setTitle('🔍 Search History...');
+			item.onClick(() => new HistorySearchModal(this.app, this.plugin).open());
+		});
+		menu.addSeparator();
 
-		if (conversations.length === 0) {
+		if (conversations.length === 0 && archived.length === 0) {
 			menu.addItem(item => {
 				item.setTitle('No conversations yet');
 				item.setDisabled(true);
@@ -179,26 +560,37 @@ export class OpenCodeChatView extends ItemView {
 				menu.addItem(item => {
 					const isActive = activeConv?.id === conv.id;
 					item.setTitle(`${isActive ? '● ' : ''}${conv.title}`);
-					item.onClick(() => {
-						const conversation = this.plugin.conversationStore.setActiveConversation(conv.id);
-						if (conversation) {
-							this.renderConversation(conversation);
-							this.plugin.processManager?.clearSession();
-							if (conversation.sessionID) {
-								this.plugin.processManager?.getState();
-							}
-						}
-					});
+					item.onClick(() => this.switchConversation(conv.id));
 				});
 			});
 
+			if (archived.length > 0) {
+				menu.addSeparator();
+				archived.slice(0, 10).forEach(conv => {
+					menu.addItem(item => {
+						item.setTitle(`📦 ${conv.title}`);
+						item.onClick(() => this.switchConversation(conv.id));
+					});
+				});
+			}
+
 			menu.addSeparator();
 
+			if (activeConv) {
+				menu.addItem(item => {
+					item.setTitle('📦 Archive Current Conversation');
+					item.onClick(async () => {
+						await store.archiveConversation(activeConv.id);
+						this.startNewConversation();
+					});
+				});
+			}
+
 			menu.addItem(item => {
 				item.setTitle('🗑️ Clear All History');
 				item.onClick(async () => {
-					conversations.forEach((conv: { id: string }) => {
-						this.plugin.conversationStore.deleteConversation(conv.id);
+					[...conversations, ...archived].forEach((conv: { id: string }) => {
+						store.deleteConversation(conv.id);
 					});
 					this.startNewConversation();
 				});
@@ -208,6 +600,36 @@ export class OpenCodeChatView extends ItemView {
 		menu.showAtMouseEvent(e);
 	}
 
+	showForkTree(): void {
+		const active = this.plugin.conversationStore.getActiveConversation();
+		if (!active) return;
+		new ForkTreeModal(this.app, this.plugin, active.id, (id) => this.switchConversation(id)).open();
+	}
+
+	private async switchConversation(id: string): Promise<void> {
+		const conversation = await this.plugin.conversationStore.openConversation(id);
+		if (conversation) {
+			await this.renderConversation(conversation);
+			this.plugin.processManager?.setSessionID(conversation.sessionID);
+		}
+	}
+
+	/**
+	 * Opens a conversation and scrolls to one of its messages.
+	 */
+	async revealMessage(conversationId: string, messageId: string): Promise<void> {
+		if (this.plugin.conversationStore.getActiveConversation()?.id !== conversationId) {
+			await this.switchConversation(conversationId);
+		}
+
+		const msgEl = this.messagesContainer.querySelector(`[data-message-id="${CSS.escape(messageId)}"]`);
+		if (msgEl instanceof HTMLElement) {
+			msgEl.scrollIntoView({ block: 'center' });
+			msgEl.addClass('is-search-match');
+			setTimeout(() => msgEl.removeClass('is-search-match'), 2000);
+		}
+	}
+
 	private updateStatusIndicator(): void {
 		this.statusArea.empty();
 		const state = this.plugin.processManager?.getState();
@@ -222,13 +644,27 @@ export class OpenCodeChatView extends ItemView {
 			this.statusArea.createSpan({ text: '⚪', cls: 'status-dot' });
 			this.statusArea.createSpan({ text: 'Ready', cls: 'status-text' });
 		}
+
+		this.updateRunControls();
+	}
+
+	private updateRunControls(): void {
+		if (!this.sendBtn) return;
+		const isRunning = this.plugin.processManager?.getState().isRunning || false;
+		this.sendBtn.textContent = isRunning ? '■' : '➤';
+		this.sendBtn.setAttribute('title', isRunning ? 'Stop' : 'Send');
+		this.sendBtn.toggleClass('is-stop', isRunning);
+	}
+
+	private async abortRun(): Promise<void> {
+		await this.plugin.processManager?.abort();
 	}
 
 	private createInputArea(): void {
 		this.inputField = this.inputContainer.createEl('textarea', {
 			cls: 'opencode-input',
 			attr: {
-				placeholder: 'Ask OpenCode anything... (Shift+Enter for new line)',
+				placeholder: 'Ask OpenCode anything... (@ to mention notes, Shift+Enter for new line)',
 				rows: '1'
 			}
 		});
@@ -238,44 +674,85 @@ export class OpenCodeChatView extends ItemView {
 			this.inputField.style.height = Math.min(this.inputField.scrollHeight, 200) + 'px';
 		});
 
+		this.mentionSuggest = new MentionSuggest(this.app, this.inputField, this.inputContainer,
+			(attachment) => this.addContextAttachment(attachment));
+
+		this.inputField.addEventListener('paste', async (e) => {
+			const files = Array.from(e.clipboardData?.files || []);
+			if (files.length === 0) return;
+			e.preventDefault();
+			for (const file of files) {
+				await this.addFileAttachment(await saveFileAttachment(this.plugin, file));
+			}
+		});
+
+		this.slashSuggest = new SlashCommandSuggest(this.inputField, this.inputContainer, () => this.getSlashCommands());
+
 		this.inputField.addEventListener('keydown', (e) => {
+			if (this.slashSuggest.handleKeydown(e) || this.mentionSuggest.handleKeydown(e)) return;
 			if (e.key === 'Enter' && !e.shiftKey) {
 				e.preventDefault();
 				this.sendMessage();
 			}
 		});
 
-		const sendBtn = this.inputContainer.createEl('button', {
+		this.sendBtn = this.inputContainer.createEl('button', {
 			cls: 'opencode-send-btn',
-			text: '➤'
+			text: '➤',
+			attr: { title: 'Send' }
 		});
-		sendBtn.addEventListener('click', () => this.sendMessage());
+		this.sendBtn.addEventListener('click', () => {
+			if (this.plugin.processManager?.getState().isRunning) {
+				this.abortRun();
+			} else {
+				this.sendMessage();
+			}
+		});
+		this.updateRunControls();
+	}
+
+	private listen(event: string, handler: (...args: any[]) => void): void {
+		this.plugin.processManager?.on(event, handler);
+		this.processListeners.push([event, handler]);
 	}
 
 	private setupProcessListeners(): void {
 		if (!this.plugin.processManager) return;
 
-		this.plugin.processManager.on('text', (content: string) => {
+		this.listen('text', (content: string) => {
 			this.appendAssistantText(content);
 		});
 
-		this.plugin.processManager.on('tool', (event: ToolEvent) => {
+		this.listen('reasoning', (content: string) => {
+			this.appendReasoningText(content);
+		});
+
+		this.listen('tool', (event: ToolEvent) => {
 			this.handleToolEvent(event);
 		});
 
-		this.plugin.processManager.on('step-start', () => {
+		this.listen('step-start', () => {
 			this.isStreaming = true;
 			this.updateStatusIndicator();
 		});
 
-		this.plugin.processManager.on('step-finish', (event: StepFinishEvent) => {
+		this.listen('step-finish', (event: StepFinishEvent) => {
 			this.finalizeAssistantMessage();
 			if (event.tokens) {
-				this.showTokenUsage(event.tokens);
+				this.showTokenUsage(event.tokens, event.cost);
+			}
+			this.updateContextMeter();
+		});
+
+		this.listen('model-change', (model: string) => {
+			if (!Array.from(this.modelSelector.options).some(option => option.value === model)) {
+				this.modelSelector.createEl('option', { value: model, text: model });
 			}
+			this.modelSelector.value = model;
+			this.warnIfImagesUnsupported();
 		});
 
-		this.plugin.processManager.on('session', (sessionID: string) => {
+		this.listen('session', (sessionID: string) => {
 			const conversation = this.plugin.conversationStore.getActiveConversation();
 			if (conversation) {
 				this.plugin.conversationStore.updateConversation(conversation.id, { sessionID });
@@ -283,13 +760,24 @@ export class OpenCodeChatView extends ItemView {
 			this.updateStatusIndicator();
 		});
 
-		this.plugin.processManager.on('exit', () => {
+		this.listen('running', () => {
+			this.updateRunControls();
+		});
+
+		this.listen('aborted', () => {
+			this.finalizeAssistantMessage(true);
+			this.cancelRunningTools();
+			this.addSystemMessage('⏹ Run aborted');
+			this.updateStatusIndicator();
+		});
+
+		this.listen('exit', () => {
 			this.isStreaming = false;
 			this.finalizeAssistantMessage();
 			this.updateStatusIndicator();
 		});
 
-		this.plugin.processManager.on('error', (error: Error | string) => {
+		this.listen('error', (error: Error | string) => {
 			this.isStreaming = false;
 			const errorMsg = error instanceof Error ? error.message : error;
 
@@ -305,7 +793,47 @@ export class OpenCodeChatView extends ItemView {
 		});
 	}
 
+	private appendReasoningText(content: string): void {
+		this.currentReasoningContent += content;
+
+		if (!this.currentReasoningEl) {
+			this.currentReasoningEl = this.createReasoningElement();
+			this.currentReasoningEl.addClass('streaming');
+		}
+
+		const contentEl = this.currentReasoningEl.querySelector('.opencode-reasoning-content') as HTMLElement;
+		contentEl.empty();
+		MarkdownRenderer.render(this.app, this.currentReasoningContent, contentEl, '', this.plugin);
+
+		this.scrollToBottom();
+	}
+
+	/**
+	 * Closes the current thinking block once the model moves on to
+	 * answering, calling a tool or finishing the step.
+	 */
+	private finalizeReasoning(): void {
+		if (!this.currentReasoningEl) return;
+
+		this.currentReasoningEl.removeClass('streaming');
+		if (this.currentReasoningContent.trim()) {
+			const conversation = this.plugin.conversationStore.getActiveConversation();
+			if (conversation) {
+				this.plugin.conversationStore.addMessage(conversation.id, {
+					id: this.createMessageId(),
+					role: 'reasoning',
+					content: this.currentReasoningContent,
+					timestamp: new Date()
+				});
+			}
+		}
+
+		this.currentReasoningEl = null;
+		this.currentReasoningContent = '';
+	}
+
 	private appendAssistantText(content: string): void {
+		this.finalizeReasoning();
 		this.currentAssistantContent += content;
 
 		if (!this.currentAssistantEl) {
@@ -329,20 +857,31 @@ export class OpenCodeChatView extends ItemView {
 		this.scrollToBottom();
 	}
 
-	private finalizeAssistantMessage(): void {
+	private finalizeAssistantMessage(interrupted: boolean = false): void {
+		this.finalizeReasoning();
+
 		if (this.currentAssistantEl) {
 			this.currentAssistantEl.removeClass('streaming');
+			if (interrupted) {
+				this.addInterruptedMarker(this.currentAssistantEl);
+			}
 
 			if (this.currentAssistantContent.trim()) {
 				const conversation = this.plugin.conversationStore.getActiveConversation();
 				if (conversation) {
 					const msg: ChatMessage = {
-						id: Date.now().toString(),
+						id: this.createMessageId(),
 						role: 'assistant',
 						content: this.currentAssistantContent,
 						timestamp: new Date()
 					};
+					if (interrupted) {
+						msg.interrupted = true;
+					}
 					this.plugin.conversationStore.addMessage(conversation.id, msg);
+					this.currentAssistantEl.setAttribute('data-message-id', msg.id);
+					this.addForkAction(this.currentAssistantEl, msg.id);
+					this.updateRegenerateAction();
 				}
 			}
 		}
@@ -353,32 +892,53 @@ export class OpenCodeChatView extends ItemView {
 	}
 
 	private handleToolEvent(event: ToolEvent): void {
-		const existingTool = this.messagesContainer.querySelector(`[data-tool-id="${event.name}-latest"]`);
+		this.finalizeReasoning();
 
-		if (existingTool && event.status !== 'pending') {
-			this.updateToolElement(existingTool as HTMLElement, event);
-		} else if (event.status === 'pending' || event.status === 'running' || !existingTool) {
+		if (EditReview.isEditTool(event.name) && (event.status === 'pending' || event.status === 'running')) {
+			this.editReview.snapshot(event);
+		}
+
+		const live = this.liveTools.get(event.callID);
+		if (!live) {
 			this.createToolElement(event);
+			return;
+		}
+
+		live.event = event;
+		this.updateToolElement(live.el, event);
+
+		const conversation = this.plugin.conversationStore.getActiveConversation();
+		if (conversation && live.messageId) {
+			this.plugin.conversationStore.updateMessage(conversation.id, live.messageId, {
+				content: event.title || event.name,
+				toolStatus: event.status,
+				toolInput: event.input,
+				toolOutput: event.output,
+				toolTitle: event.title
+			});
 		}
 	}
 
 	private createToolElement(event: ToolEvent): void {
 		const msgEl = this.messagesContainer.createDiv({
 			cls: 'opencode-message opencode-message-tool',
-			attr: { 'data-tool-id': `${event.name}-latest` }
+			attr: { 'data-tool-id': event.callID }
 		});
 
 		this.updateToolElement(msgEl, event);
 		this.scrollToBottom();
 
+		let messageId: string | null = null;
 		const conversation = this.plugin.conversationStore.getActiveConversation();
 		if (conversation) {
+			messageId = this.createMessageId();
 			const msg: ChatMessage = {
-				id: Date.now().toString(),
+				id: messageId,
 				role: 'tool',
 				content: event.title || event.name,
 				timestamp: new Date(),
 				toolName: event.name,
+				toolCallID: event.callID,
 				toolStatus: event.status,
 				toolInput: event.input,
 				toolOutput: event.output,
@@ -386,6 +946,21 @@ export class OpenCodeChatView extends ItemView {
 			};
 			this.plugin.conversationStore.addMessage(conversation.id, msg);
 		}
+		this.liveTools.set(event.callID, { el: msgEl, event, messageId });
+	}
+
+	private cancelRunningTools(): void {
+		const conversation = this.plugin.conversationStore.getActiveConversation();
+
+		this.liveTools.forEach((live) => {
+			if (live.event.status !== 'pending' && live.event.status !== 'running') return;
+
+			live.event = { ...live.event, status: 'cancelled' };
+			this.updateToolElement(live.el, live.event);
+			if (conversation && live.messageId) {
+				this.plugin.conversationStore.updateMessage(conversation.id, live.messageId, { toolStatus: 'cancelled' });
+			}
+		});
 	}
 
 	private updateToolElement(el: HTMLElement, event: ToolEvent): void {
@@ -424,6 +999,38 @@ export class OpenCodeChatView extends ItemView {
 			const errorEl = block.createDiv({ cls: 'opencode-tool-error' });
 			errorEl.textContent = `Error: ${event.error}`;
 		}
+
+		if (event.status === 'completed' && EditReview.isEditTool(event.name)) {
+			const renderId = (this.reviewRenders.get(el) || 0) + 1;
+			this.reviewRenders.set(el, renderId);
+			this.editReview.render(block, event, {
+				review: this.getToolMessage(event.callID)?.toolReview,
+				onReview: (review) => this.setToolReview(el, event, review),
+				isStale: () => this.reviewRenders.get(el) !== renderId
+			}).catch(error => {
+				console.error('Failed to render edit review:', error);
+				if (block.isConnected && this.reviewRenders.get(el) === renderId) {
+					block.createDiv({
+						cls: 'opencode-tool-error',
+						text: `Could not show the changes: ${error instanceof Error ? error.message : error}`
+					});
+				}
+			});
+		}
+	}
+
+	private getToolMessage(callID: string): ChatMessage | null {
+		const conversation = this.plugin.conversationStore.getActiveConversation();
+		return conversation?.messages.find(m => m.role === 'tool' && (m.toolCallID || m.id) === callID) || null;
+	}
+
+	private setToolReview(el: HTMLElement, event: ToolEvent, review: ToolReview): void {
+		const conversation = this.plugin.conversationStore.getActiveConversation();
+		const message = this.getToolMessage(event.callID);
+		if (conversation && message) {
+			this.plugin.conversationStore.updateMessage(conversation.id, message.id, { toolReview: review });
+		}
+		this.updateToolElement(el, event);
 	}
 
 	private getStatusIcon(status: string): string {
@@ -432,6 +1039,7 @@ export class OpenCodeChatView extends ItemView {
 			case 'running': return '🔄';
 			case 'completed': return '✅';
 			case 'error': return '❌';
+			case 'cancelled': return '⏹';
 			default: return '❓';
 		}
 	}
@@ -442,45 +1050,433 @@ export class OpenCodeChatView extends ItemView {
 			case 'running': return 'Running...';
 			case 'completed': return 'Done';
 			case 'error': return 'Error';
+			case 'cancelled': return 'Cancelled';
 			default: return status;
 		}
 	}
 
-	private showTokenUsage(tokens: { input: number; output: number; reasoning: number; cache?: { read: number; write: number } }): void {
+	private showTokenUsage(tokens: { input: number; output: number; reasoning: number; cache?: { read: number; write: number } }, cost?: number): void {
 		const usageEl = this.messagesContainer.createDiv({ cls: 'opencode-token-usage' });
 		usageEl.innerHTML = `<span class="token-label">Tokens:</span> 
 			<span class="token-in">↓${tokens.input}</span> 
 			<span class="token-out">↑${tokens.output}</span>
-			${tokens.cache ? `<span class="token-cache">📦${tokens.cache.read}</span>` : ''}`;
+			${tokens.cache ? `<span class="token-cache">📦${tokens.cache.read}</span>` : ''}
+			${cost ? `<span class="token-cost">$${cost.toFixed(4)}</span>` : ''}`;
 	}
 
 	private async sendMessage(): Promise<void> {
-		const message = this.inputField.value.trim();
-		if (!message || this.isStreaming) return;
+		let message = this.inputField.value.trim();
+		if (!message || this.isStreaming || this.isCompacting) return;
+
+		const parsed = parseSlashCommand(message);
+		const command = parsed && this.getSlashCommands().find(c => c.name === parsed.name);
+		if (parsed && command?.run) {
+			this.inputField.value = '';
+			this.inputField.style.height = 'auto';
+			await command.run(parsed.args);
+			return;
+		}
+		if (parsed && command?.custom) {
+			message = expandCommandTemplate(this.app, command.custom, parsed.args);
+			if (!message) return;
+		}
+
+		await this.submitMessage(message, [...this.pendingContext], [...this.pendingFiles], {}, true);
+	}
+
+	/**
+	 * Sends a prompt as the next user message. Only a prompt taken from the
+	 * input box clears it and the pending attachments once it is sent.
+	 */
+	private async submitMessage(message: string, context: ContextAttachment[], files: FileAttachment[], options: PromptOptions, fromInput: boolean, skipContextCheck: boolean = false): Promise<void> {
+		if (this.isStreaming || this.isCompacting) return;
+		if (!this.plugin.checkBudget(message => this.addSystemMessage(message))) return;
 
 		const conversation = this.plugin.conversationStore.getOrCreateActiveConversation();
+		const prompt = buildPromptWithContext(message, context);
+		const limit = this.plugin.settings.contextWindowLimit;
+		if (!skipContextCheck && limit > 0 && this.getContextTokens(conversation) + estimateTokens(prompt) > limit) {
+			const sendAnyway = () => this.submitMessage(message, context, files, options, fromInput, true);
+			if (!this.plugin.settings.autoCompact) {
+				this.offerCompaction(sendAnyway);
+				return;
+			}
+			// Keep the message when compaction is not possible, e.g. on the first turn
+			if (!await this.compact()) {
+				this.offerCompaction(sendAnyway, false);
+				return;
+			}
+		}
+
+		// After a fork or compaction, the first prompt opens a new session that carries the history
+		const history = conversation.seedPending ? [...conversation.messages] : [];
 
 		const msg: ChatMessage = {
-			id: Date.now().toString(),
+			id: this.createMessageId(),
 			role: 'user',
 			content: message,
 			timestamp: new Date()
 		};
+		if (context.length > 0) {
+			msg.context = context;
+		}
+		if (files.length > 0) {
+			msg.files = files;
+			await this.warnIfImagesUnsupported();
+		}
 		this.plugin.conversationStore.addMessage(conversation.id, msg);
-		this.renderUserMessage(message);
+		this.plugin.conversationStore.updateConversation(conversation.id, {
+			model: options.model || this.plugin.processManager?.getModelArg(),
+			seedPending: false
+		});
+		this.plugin.checkpointManager.queue(conversation.id, msg.id, context.map(item => item.path));
+		this.renderUserMessage(msg);
 
-		this.inputField.value = '';
-		this.inputField.style.height = 'auto';
+		if (fromInput) {
+			this.inputField.value = '';
+			this.inputField.style.height = 'auto';
+			this.pendingContext = [];
+			this.pendingFiles = [];
+			this.renderPendingContext();
+		}
 		this.currentAssistantContent = '';
 		this.scrollToBottom();
 
 		try {
-			await this.plugin.processManager?.sendMessage(message);
+			await this.plugin.processManager?.sendMessage(prompt, history, files, options);
 		} catch (error) {
 			this.addSystemMessage(`❌ Failed to send message: ${error}`);
 		}
 	}
 
+	private getSlashCommands(): SlashCommand[] {
+		const store = this.plugin.conversationStore;
+		const builtins: SlashCommand[] = [
+			{
+				name: 'new',
+				description: 'Start a new conversation',
+				run: () => this.startNewConversation()
+			},
+			{
+				name: 'model',
+				args: '<provider/model>',
+				description: 'Switch model, or show the current one',
+				run: async (args) => {
+					if (!args) {
+						this.addSystemMessage(`🤖 Current model: ${this.plugin.processManager?.getModelArg()}\nFavorites: ${this.plugin.settings.favoriteModels.join(', ')}`);
+						return;
+					}
+					await this.plugin.setModel(args);
+					this.plugin.processManager?.clearSession();
+					this.updateStatusIndicator();
+					this.addSystemMessage(`🤖 Switched model to ${args}`);
+				}
+			},
+			{
+				name: 'clear',
+				description: 'Remove all messages from this conversation',
+				run: async () => {
+					if (this.isBusy()) return;
+					const conversation = store.getActiveConversation();
+					if (!conversation) return;
+					if (conversation.messages.length > 0) {
+						store.removeMessagesFrom(conversation.id, conversation.messages[0].id);
+					}
+					store.updateConversation(conversation.id, { sessionID: null, seedPending: false });
+					this.plugin.processManager?.setSessionID(null);
+					await this.renderConversation(conversation);
+				}
+			},
+			{
+				name: 'export',
+				description: 'Export this conversation to a note',
+				run: () => this.plugin.exportActiveConversation()
+			},
+			{
+				name: 'compact',
+				description: 'Summarize earlier turns into a new session',
+				run: async () => {
+					await this.compact();
+				}
+			},
+			{
+				name: 'cost',
+				description: 'Show token usage and cost',
+				run: () => this.showCost()
+			},
+			{
+				name: 'undo',
+				description: 'Remove the last turn and restore the files it changed',
+				run: () => this.undoLastTurn()
+			},
+			{
+				name: 'agent',
+				args: '<name>',
+				description: 'Switch OpenCode agent ("default" to reset), or show the current one',
+				run: async (args) => {
+					if (!args) {
+						this.addSystemMessage(`🧭 Current agent: ${this.plugin.settings.agent || 'default'}`);
+						return;
+					}
+					this.plugin.settings.agent = args === 'default' ? '' : args;
+					await this.plugin.saveSettings();
+					this.addSystemMessage(`🧭 Switched agent to ${this.plugin.settings.agent || 'default'}`);
+				}
+			},
+			{
+				name: 'template',
+				args: '[name]',
+				description: 'Run a prompt template from the templates folder',
+				run: (args) => {
+					const template = args && this.getTemplates().find(t => t.name.toLowerCase() === args.toLowerCase());
+					if (template) {
+						return this.runTemplate(template);
+					}
+					this.showTemplatePicker();
+				}
+			},
+			{
+				name: 'help',
+				description: 'List available commands',
+				run: () => {
+					const lines = this.getSlashCommands().map(c =>
+						`/${c.name}${c.args ? ` ${c.args}` : ''} – ${c.description}`);
+					this.addSystemMessage(`Commands:\n${lines.join('\n')}`);
+				}
+			}
+		];
+
+		const custom: SlashCommand[] = this.plugin.settings.customCommands
+			.filter(c => c.name && !builtins.some(b => b.name === c.name.toLowerCase()))
+			.map(c => ({
+				name: c.name.toLowerCase(),
+				args: c.template.includes('{{args}}') ? '[text]' : undefined,
+				description: c.description || 'Custom command',
+				custom: c
+			}));
+
+		const templates: SlashCommand[] = this.getTemplates()
+			.map(t => ({ template: t, name: t.name.toLowerCase().replace(/\s+/g, '-') }))
+			.filter(({ name }) => !builtins.some(b => b.name === name) && !custom.some(c => c.name === name))
+			.map(({ template, name }) => ({
+				name,
+				description: template.description || 'Prompt template',
+				run: () => this.runTemplate(template)
+			}));
+
+		return [...builtins, ...custom, ...templates];
+	}
+
+	private getTemplates(): PromptTemplate[] {
+		return getPromptTemplates(this.app, this.plugin.settings.templatesFolder);
+	}
+
+	showTemplatePicker(): void {
+		const templates = this.getTemplates();
+		if (templates.length === 0) {
+			new Notice(`No prompt templates in "${this.plugin.settings.templatesFolder}"`);
+			return;
+		}
+		new PromptTemplateModal(this.app, templates, (template) => this.runTemplate(template)).open();
+	}
+
+	/**
+	 * Fills a template and sends it with the model and agent it pins. The
+	 * draft in the input box is left as it is.
+	 */
+	async runTemplate(template: PromptTemplate): Promise<void> {
+		if (this.isBusy()) return;
+
+		const prompt = await fillPromptTemplate(this.app, template,
+			(variables) => new TemplateVariablesModal(this.app, template, variables).prompt());
+		if (!prompt?.trim()) return;
+
+		await this.submitMessage(prompt.trim(), [], [], {
+			model: resolveTemplateModel(this.plugin.settings, template.model),
+			agent: template.agent
+		}, false);
+	}
+
+	private showCost(): void {
+		const conversation = this.plugin.conversationStore.getActiveConversation();
+		const usage = conversation?.usage;
+		const monthCost = this.plugin.conversationStore.getMonthlyCost();
+		const budget = this.plugin.settings.monthlyBudget;
+
+		const lines = usage
+			? [
+				`Input: ${usage.input} · Output: ${usage.output} · Reasoning: ${usage.reasoning}`,
+				`Cache read: ${usage.cacheRead} · Cache write: ${usage.cacheWrite}`,
+				`Conversation cost: $${usage.cost.toFixed(4)}`
+			]
+			: ['No usage recorded for this conversation yet.'];
+		lines.push(`This month: $${monthCost.toFixed(2)}${budget > 0 ? ` of $${budget.toFixed(2)} budget` : ''}`);
+		this.addSystemMessage(`💰 Usage\n${lines.join('\n')}`);
+	}
+
+	/**
+	 * Drops the last user message and everything after it, restores the
+	 * vault files that turn changed, and puts the prompt back in the input.
+	 */
+	private async undoLastTurn(): Promise<void> {
+		if (this.isBusy()) return;
+
+		const store = this.plugin.conversationStore;
+		const conversation = store.getActiveConversation();
+		const lastPrompt = conversation?.messages.filter(m => m.role === 'user').pop();
+		if (!conversation || !lastPrompt) {
+			this.addSystemMessage('Nothing to undo.');
+			return;
+		}
+
+		let restored = '';
+		if (this.plugin.checkpointManager.getCheckpointForMessage(lastPrompt.id)) {
+			try {
+				const result = await this.plugin.checkpointManager.restoreToBefore(lastPrompt.id);
+				restored = ` and restored ${result.restored.length} file(s)`;
+			} catch (error) {
+				this.addSystemMessage(`❌ Restore failed: ${error instanceof Error ? error.message : error}`);
+			}
+		}
+
+		store.removeMessagesFrom(conversation.id, lastPrompt.id);
+		store.updateConversation(conversation.id, { sessionID: null, seedPending: conversation.messages.length > 0 });
+		this.plugin.processManager?.setSessionID(null);
+		await this.renderConversation(conversation);
+
+		this.inputField.value = lastPrompt.content;
+		this.pendingContext = lastPrompt.context ? [...lastPrompt.context] : [];
+		this.pendingFiles = lastPrompt.files ? [...lastPrompt.files] : [];
+		this.renderPendingContext();
+		this.addSystemMessage(`↶ Undid the last turn${restored}`);
+	}
+
+	/**
+	 * Tokens the next turn starts with: the prompt size reported by the
+	 * latest step, or an estimate from the text when nothing has run since
+	 * the last compaction.
+	 */
+	private getContextTokens(conversation: Conversation): number {
+		let start = 0;
+		conversation.messages.forEach((msg, index) => {
+			if (msg.compaction) start = index;
+		});
+		const since = start > 0 ? new Date(conversation.messages[start].timestamp).getTime() : 0;
+
+		const latest = (conversation.usageLog || []).filter(r => r.timestamp > since).pop();
+		if (latest) {
+			return latest.input + latest.cacheRead + latest.cacheWrite;
+		}
+		return conversation.messages.slice(start)
+			.reduce((sum, msg) => sum + estimateTokens(msg.compaction || msg.content), 0);
+	}
+
+	private updateContextMeter(): void {
+		const conversation = this.plugin.conversationStore.getActiveConversation();
+		const limit = this.plugin.settings.contextWindowLimit;
+		this.contextMeterEl.empty();
+		if (!conversation || !limit) return;
+
+		const used = this.getContextTokens(conversation);
+		const ratio = used / limit;
+		this.contextMeterEl.toggleClass('is-warning', ratio >= 0.8 && ratio < 1);
+		this.contextMeterEl.toggleClass('is-over', ratio >= 1);
+		this.contextMeterEl.setAttribute('title', 'Context window usage. Click to compact earlier turns.');
+
+		const bar = this.contextMeterEl.createDiv({ cls: 'opencode-context-meter-bar' });
+		bar.createDiv({ cls: 'opencode-context-meter-fill' }).style.width = `${Math.min(ratio, 1) * 100}%`;
+		this.contextMeterEl.createSpan({
+			cls: 'opencode-context-meter-label',
+			text: `${(used / 1000).toFixed(1)}k / ${(limit / 1000).toFixed(0)}k (${Math.round(ratio * 100)}%)`
+		});
+	}
+
+	private offerCompaction(send: () => Promise<void>, canCompact: boolean = true): void {
+		const msgEl = this.messagesContainer.createDiv({ cls: 'opencode-message opencode-message-system' });
+		const contentEl = msgEl.createDiv({ cls: 'opencode-message-content' });
+		contentEl.createDiv({
+			text: canCompact
+				? '📏 This message would go over the context window limit. Compact earlier turns into a summary first?'
+				: '📏 This message would go over the context window limit and earlier turns could not be compacted. Send it anyway?'
+		});
+
+		const actionsEl = contentEl.createDiv({ cls: 'opencode-edit-actions' });
+		const sendBtn = actionsEl.createEl('button', { cls: canCompact ? 'opencode-btn' : 'opencode-btn mod-cta', text: 'Send Anyway' });
+		sendBtn.addEventListener('click', () => {
+			msgEl.remove();
+			send();
+		});
+
+		if (canCompact) {
+			const compactBtn = actionsEl.createEl('button', { cls: 'opencode-btn mod-cta', text: 'Compact & Send' });
+			compactBtn.addEventListener('click', async () => {
+				msgEl.remove();
+				if (await this.compact()) {
+					await send();
+				} else {
+					this.offerCompaction(send, false);
+				}
+			});
+		}
+		this.scrollToBottom();
+	}
+
+	private confirmCompaction(): void {
+		new ConfirmModal(
+			this.app,
+			'Summarize the earlier turns of this conversation and continue in a new session seeded with the summary?',
+			'Compact',
+			() => this.compact()
+		).open();
+	}
+
+	/**
+	 * Summarizes every turn before the latest one, records the summary as a
+	 * system message and starts a new session seeded from it.
+	 */
+	async compact(): Promise<boolean> {
+		if (this.isBusy()) return false;
+
+		const store = this.plugin.conversationStore;
+		const conversation = store.getActiveConversation();
+		const prompts = conversation?.messages.filter(m => m.role === 'user') || [];
+		if (!conversation || prompts.length < 2) {
+			this.addSystemMessage('Nothing to compact yet.');
+			return false;
+		}
+
+		const keepFrom = prompts[prompts.length - 1];
+		const older = conversation.messages.slice(0, conversation.messages.indexOf(keepFrom));
+
+		this.isCompacting = true;
+		this.addSystemMessage('🗜️ Compacting conversation...');
+		let summary: string;
+		try {
+			summary = await this.plugin.processManager!.summarize(older);
+		} catch (error) {
+			this.addSystemMessage(`❌ Compaction failed: ${error instanceof Error ? error.message : error}`);
+			return false;
+		} finally {
+			this.isCompacting = false;
+		}
+
+		store.insertMessageBefore(conversation.id, keepFrom.id, {
+			id: this.createMessageId(),
+			role: 'system',
+			content: `🗜️ Compacted ${older.length} earlier messages into a summary`,
+			timestamp: new Date(),
+			compaction: summary
+		});
+		store.updateConversation(conversation.id, { sessionID: null, seedPending: true });
+		this.plugin.processManager?.setSessionID(null);
+		await this.renderConversation(conversation);
+		return true;
+	}
+
+	private createMessageId(): string {
+		return `msg-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+	}
+
 	private addSystemMessage(content: string): void {
 		const msgEl = this.messagesContainer.createDiv({ cls: 'opencode-message opencode-message-system' });
 		const contentEl = msgEl.createDiv({ cls: 'opencode-message-content' });
@@ -492,6 +1488,21 @@ export class OpenCodeChatView extends ItemView {
 		this.messagesContainer.scrollTop = this.messagesContainer.scrollHeight;
 	}
 
+	/**
+	 * Attaches vault paths as context chips and drafts a prompt if the
+	 * input is empty.
+	 */
+	async attachContext(attachments: ContextAttachment[], prompt?: string): Promise<void> {
+		for (const attachment of attachments) {
+			await this.addContextAttachment(attachment);
+		}
+		if (prompt && !this.inputField.value.trim()) {
+			this.inputField.value = prompt;
+		}
+		this.inputField.focus();
+		this.inputField.setSelectionRange(this.inputField.value.length, this.inputField.value.length);
+	}
+
 	private async addActiveNoteToContext(): Promise<void> {
 		const activeFile = this.app.workspace.getActiveFile();
 		if (!activeFile) {
@@ -499,10 +1510,140 @@ export class OpenCodeChatView extends ItemView {
 			return;
 		}
 
-		const content = await this.app.vault.read(activeFile);
-		const message = `Please analyze this file: ${activeFile.path}\n\n\`\`\`\n${content}\n\`\`\``;
-		this.inputField.value = message;
-		this.addSystemMessage(`📄 Added "${activeFile.name}" to context. Press Enter to send.`);
+		await this.addContextAttachment({ type: 'file', path: activeFile.path });
+		this.inputField.focus();
+	}
+
+	private async addContextAttachment(attachment: ContextAttachment): Promise<void> {
+		const exists = this.pendingContext.some(a =>
+			a.type === attachment.type && a.path === attachment.path && a.subpath === attachment.subpath);
+		if (exists) return;
+
+		this.pendingContext.push(await resolveAttachment(this.app, attachment));
+		this.renderPendingContext();
+	}
+
+	/**
+	 * Accepts files dragged from the file explorer or from outside Obsidian.
+	 */
+	private setupDropTarget(container: HTMLElement): void {
+		container.addEventListener('dragover', (e) => {
+			e.preventDefault();
+			container.addClass('is-drag-over');
+		});
+		container.addEventListener('dragleave', (e) => {
+			if (!container.contains(e.relatedTarget as Node)) {
+				container.removeClass('is-drag-over');
+			}
+		});
+		container.addEventListener('drop', async (e) => {
+			container.removeClass('is-drag-over');
+			const vaultFiles = this.getDraggedVaultFiles();
+			// Plain text drops fall through to the textarea
+			if (vaultFiles.length === 0 && !e.dataTransfer?.files.length) return;
+
+			e.preventDefault();
+			await this.handleDrop(e, vaultFiles);
+			this.inputField.focus();
+		});
+	}
+
+	private getDraggedVaultFiles(): (TFile | TFolder)[] {
+		const draggable = (this.app as any).dragManager?.draggable;
+		switch (draggable?.type) {
+			case 'file':
+			case 'folder':
+				return [draggable.file];
+			case 'files':
+				return draggable.files;
+			default:
+				return [];
+		}
+	}
+
+	private async handleDrop(e: DragEvent, vaultFiles: (TFile | TFolder)[]): Promise<void> {
+		if (vaultFiles.length > 0) {
+			const basePath = (this.app.vault.adapter as any).basePath || '';
+			for (const file of vaultFiles) {
+				if (file instanceof TFolder) {
+					await this.addContextAttachment({ type: 'folder', path: file.path });
+				} else {
+					await this.addFileAttachment(createFileAttachment(`${basePath}/${file.path}`));
+				}
+			}
+			return;
+		}
+
+		for (const file of Array.from(e.dataTransfer?.files || [])) {
+			const filePath = getDroppedFilePath(file);
+			if (!filePath) {
+				await this.addFileAttachment(await saveFileAttachment(this.plugin, file));
+				continue;
+			}
+			const attachment = createFileAttachment(filePath);
+			await this.addFileAttachment(file.type ? { ...attachment, mime: file.type } : attachment);
+		}
+	}
+
+	private async addFileAttachment(attachment: FileAttachment): Promise<void> {
+		if (this.pendingFiles.some(f => f.path === attachment.path)) return;
+		this.pendingFiles.push(attachment);
+		this.renderPendingContext();
+		if (isImageAttachment(attachment)) {
+			await this.warnIfImagesUnsupported();
+		}
+	}
+
+	private async warnIfImagesUnsupported(): Promise<void> {
+		if (!this.pendingFiles.some(isImageAttachment)) return;
+
+		const model = this.plugin.processManager?.getModelArg() || '';
+		if (await this.plugin.processManager?.supportsImages(model) === false) {
+			new Notice(`🖼️ ${model} does not accept images. Pick an image-capable model before sending.`);
+		}
+	}
+
+	private createFileChip(container: HTMLElement, attachment: FileAttachment): HTMLElement {
+		const chip = container.createDiv({ cls: 'opencode-context-chip opencode-file-chip', attr: { title: attachment.path } });
+		if (isImageAttachment(attachment)) {
+			chip.createEl('img', { cls: 'opencode-file-thumbnail', attr: { src: getAttachmentResourceUrl(attachment), alt: attachment.name } });
+		} else {
+			chip.createSpan({ text: `📎 ${attachment.name}` });
+		}
+		return chip;
+	}
+
+	private renderPendingContext(): void {
+		this.contextChipsEl.empty();
+		this.pendingFiles.forEach((attachment, index) => {
+			const chip = this.createFileChip(this.contextChipsEl, attachment);
+			const removeBtn = chip.createSpan({ cls: 'opencode-context-chip-remove', text: '✕' });
+			removeBtn.addEventListener('click', () => {
+				this.pendingFiles.splice(index, 1);
+				this.renderPendingContext();
+			});
+		});
+		this.pendingContext.forEach((attachment, index) => {
+			const chip = this.createContextChip(this.contextChipsEl, attachment);
+			const removeBtn = chip.createSpan({ cls: 'opencode-context-chip-remove', text: '✕' });
+			removeBtn.addEventListener('click', (e) => {
+				e.stopPropagation();
+				this.pendingContext.splice(index, 1);
+				this.renderPendingContext();
+			});
+		});
+	}
+
+	private createContextChip(container: HTMLElement, attachment: ContextAttachment): HTMLElement {
+		const chip = container.createDiv({ cls: 'opencode-context-chip', attr: { title: attachment.content || attachment.path } });
+		chip.createSpan({ text: getAttachmentLabel(attachment) });
+		chip.addEventListener('click', () => {
+			if (attachment.type === 'folder') return;
+			const marker = attachment.type === 'heading' ? '#' : '#^';
+			const link = attachment.subpath ? `${attachment.path}${marker}${attachment.subpath}` : attachment.path;
+			this.app.workspace.openLinkText(link, '', true);
+		});
+		return chip;
 	}
 
 	private startNewConversation(): void {
@@ -535,6 +1676,15 @@ export class OpenCodeChatView extends ItemView {
 	}
 
 	async onClose(): Promise<void> {
+		for (const [event, handler] of this.processListeners) {
+			this.plugin.processManager?.off(event, handler);
+		}
+		this.processListeners = [];
 		await this.plugin.conversationStore.save();
 	}
 }
+
+// Rough token count for text that has not been through the model yet
+function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,352 @@
+import { MarkdownView, Notice, TAbstractFile, TFile, arrayBufferToBase64, base64ToArrayBuffer, normalizePath } from 'obsidian';
+import type OpenCodePlugin from './main';
+import { ToolEvent } from './types';
+import { EditReview, getToolTargetPaths } from './EditReview';
+import { undoReplacement } from './LineDiff';
+
+export type CheckpointFileAction = 'modified' | 'created' | 'deleted';
+
+export interface CheckpointFile {
+	path: string;
+	action: CheckpointFileAction;
+	// False when the file changed before a pre-image could be captured (e.g. via bash)
+	restorable: boolean;
+}
+
+export interface Checkpoint {
+	id: string;
+	conversationId: string;
+	messageId: string;
+	createdAt: number;
+	files: CheckpointFile[];
+}
+
+export interface RestoreResult {
+	restored: string[];
+	skipped: string[];
+}
+
+interface ActiveCheckpoint {
+	checkpoint: Checkpoint;
+	// Paths that existed when the turn started
+	inventory: Set<string>;
+	// Base64 pre-images keyed by path; null means the file did not exist
+	preImages: Map<string, string | null>;
+	pendingReads: Promise<void>[];
+}
+
+const INDEX_FILE = 'index.json';
+
+/**
+ * Records the vault files touched during each agent turn (from the user
+ * message until the run exits) so the vault can be rolled back to how it
+ * was before that message.
+ */
+export class CheckpointManager {
+	private plugin: OpenCodePlugin;
+	private checkpoints: Checkpoint[] = [];
+	private queued: { conversationId: string; messageId: string; paths: string[] }[] = [];
+	private active: ActiveCheckpoint | null = null;
+	private restoring: boolean = false;
+
+	constructor(plugin: OpenCodePlugin) {
+		this.plugin = plugin;
+	}
+
+	private get folder(): string {
+		return normalizePath(`${this.plugin.app.vault.configDir}/plugins/${this.plugin.manifest.id}/checkpoints`);
+	}
+
+	async load(): Promise<void> {
+		const adapter = this.plugin.app.vault.adapter;
+		const indexPath = `${this.folder}/${INDEX_FILE}`;
+		if (await adapter.exists(indexPath)) {
+			try {
+				this.checkpoints = JSON.parse(await adapter.read(indexPath));
+			} catch (error) {
+				console.error('Failed to read checkpoint index:', error);
+				this.checkpoints = [];
+			}
+		}
+
+		this.registerListeners();
+	}
+
+	private registerListeners(): void {
+		const { vault } = this.plugin.app;
+		const processManager = this.plugin.processManager;
+
+		this.plugin.registerEvent(vault.on('create', (file) => this.recordTouch(file, 'created')));
+		this.plugin.registerEvent(vault.on('modify', (file) => this.recordTouch(file, 'modified')));
+		this.plugin.registerEvent(vault.on('delete', (file) => this.recordTouch(file, 'deleted')));
+		this.plugin.registerEvent(vault.on('rename', (file, oldPath) => {
+			this.recordTouch(file, 'created');
+			this.recordPath(oldPath, 'deleted');
+		}));
+
+		processManager?.on('running', () => this.beginNext());
+		processManager?.on('tool', (event: ToolEvent) => this.captureToolPreImages(event));
+		processManager?.on('exit', () => this.finish());
+		processManager?.on('aborted', () => {
+			this.queued = [];
+		});
+	}
+
+	/**
+	 * Registers a user message; its checkpoint starts recording when the
+	 * run for it starts, after any runs already queued. `paths` are files
+	 * the message refers to, snapshotted along with the open notes.
+	 */
+	queue(conversationId: string, messageId: string, paths: string[] = []): void {
+		if (!this.plugin.settings.checkpointsEnabled) return;
+		this.queued.push({ conversationId, messageId, paths });
+	}
+
+	getCheckpoints(): Checkpoint[] {
+		return [...this.checkpoints];
+	}
+
+	getCheckpointForMessage(messageId: string): Checkpoint | null {
+		return this.checkpoints.find(c => c.messageId === messageId) || null;
+	}
+
+	/**
+	 * Restores the vault to its state before the given message by undoing
+	 * that turn and every later turn of the same conversation, newest first.
+	 */
+	async restoreToBefore(messageId: string): Promise<RestoreResult> {
+		const target = this.getCheckpointForMessage(messageId);
+		if (!target) {
+			throw new Error('No vault changes were recorded for this message');
+		}
+
+		const toRestore = this.checkpoints
+			.filter(c => c.conversationId === target.conversationId && c.createdAt >= target.createdAt)
+			.sort((a, b) => b.createdAt - a.createdAt);
+
+		const result: RestoreResult = { restored: [], skipped: [] };
+		this.restoring = true;
+		try {
+			for (const checkpoint of toRestore) {
+				await this.applyCheckpoint(checkpoint, result);
+			}
+		} finally {
+			this.restoring = false;
+		}
+
+		for (const checkpoint of toRestore) {
+			await this.deleteCheckpoint(checkpoint.id);
+		}
+		return result;
+	}
+
+	async deleteCheckpoint(id: string): Promise<void> {
+		const adapter = this.plugin.app.vault.adapter;
+		const blobPath = `${this.folder}/${id}.json`;
+		if (await adapter.exists(blobPath)) {
+			await adapter.remove(blobPath);
+		}
+		this.checkpoints = this.checkpoints.filter(c => c.id !== id);
+		await this.saveIndex();
+	}
+
+	async prune(olderThan: number): Promise<number> {
+		const expired = this.checkpoints.filter(c => c.createdAt < olderThan);
+		for (const checkpoint of expired) {
+			await this.deleteCheckpoint(checkpoint.id);
+		}
+		return expired.length;
+	}
+
+	private beginNext(): void {
+		this.finish();
+
+		const next = this.queued.shift();
+		if (!next) return;
+
+		const inventory = new Set(this.plugin.app.vault.getAllLoadedFiles().map(file => file.path));
+		this.active = {
+			checkpoint: {
+				id: `ckpt-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+				conversationId: next.conversationId,
+				messageId: next.messageId,
+				createdAt: Date.now(),
+				files: []
+			},
+			inventory,
+			preImages: new Map(),
+			pendingReads: []
+		};
+
+		// Tool events may only arrive once the edit is done, so the notes the
+		// agent is most likely to touch are snapshotted before it starts
+		const { workspace, vault } = this.plugin.app;
+		const openPaths = workspace.getLeavesOfType('markdown')
+			.map(leaf => (leaf.view as MarkdownView).file?.path);
+		for (const filePath of new Set([...openPaths, ...next.paths])) {
+			if (filePath && vault.getAbstractFileByPath(filePath) instanceof TFile) {
+				this.capturePreImage(this.active, filePath);
+			}
+		}
+	}
+
+	private captureToolPreImages(event: ToolEvent): void {
+		const active = this.active;
+		if (!active || !EditReview.isEditTool(event.name)) return;
+
+		const vaultPath = (this.plugin.app.vault.adapter as any).basePath || '';
+		const paths = getToolTargetPaths(event, vaultPath);
+		if (event.status === 'pending' || event.status === 'running') {
+			paths.forEach(filePath => this.capturePreImage(active, filePath));
+		} else if (event.status === 'completed' && event.name === 'edit' && paths.length === 1 && !active.preImages.has(paths[0])) {
+			this.reconstructPreImage(active, paths[0], event);
+		}
+	}
+
+	private capturePreImage(active: ActiveCheckpoint, filePath: string): void {
+		if (active.preImages.has(filePath)) return;
+		active.preImages.set(filePath, null);
+		active.pendingReads.push(this.readBase64(filePath).then(content => {
+			active.preImages.set(filePath, content);
+		}));
+	}
+
+	/**
+	 * For an edit first seen after it completed, recovers the earlier
+	 * content by undoing its replacement, when the new text occurs once.
+	 */
+	private reconstructPreImage(active: ActiveCheckpoint, filePath: string, event: ToolEvent): void {
+		const oldString = event.input?.oldString;
+		const newString = event.input?.newString;
+		if (typeof oldString !== 'string' || typeof newString !== 'string' || !newString) return;
+
+		active.preImages.set(filePath, null);
+		active.pendingReads.push((async () => {
+			const adapter = this.plugin.app.vault.adapter;
+			if (!await adapter.exists(filePath)) return;
+			const current = await adapter.read(filePath);
+			const before = undoReplacement(current, oldString, newString);
+			if (before === null) return;
+			active.preImages.set(filePath, arrayBufferToBase64(new TextEncoder().encode(before).buffer));
+		})());
+	}
+
+	private recordTouch(file: TAbstractFile, action: CheckpointFileAction): void {
+		if (file instanceof TFile) {
+			this.recordPath(file.path, action);
+		}
+	}
+
+	private recordPath(filePath: string, action: CheckpointFileAction): void {
+		const active = this.active;
+		if (!active || this.restoring || filePath.startsWith(this.plugin.app.vault.configDir + '/')) return;
+
+		const files = active.checkpoint.files;
+		const existing = files.find(f => f.path === filePath);
+		const existedBefore = active.inventory.has(filePath);
+
+		if (existing) {
+			// A file created in this turn stays "created" whatever happens next
+			if (existing.action !== 'created') {
+				existing.action = action === 'deleted' ? 'deleted' : 'modified';
+			}
+			return;
+		}
+
+		files.push({
+			path: filePath,
+			action: existedBefore ? (action === 'deleted' ? 'deleted' : 'modified') : 'created',
+			restorable: !existedBefore || active.preImages.has(filePath)
+		});
+	}
+
+	private async finish(): Promise<void> {
+		const active = this.active;
+		if (!active) return;
+		this.active = null;
+
+		await Promise.all(active.pendingReads);
+
+		const { checkpoint, preImages } = active;
+		for (const file of checkpoint.files) {
+			if (file.action !== 'created') {
+				file.restorable = typeof preImages.get(file.path) === 'string';
+			}
+		}
+		if (checkpoint.files.length === 0) return;
+		// A checkpoint that cannot undo anything is not offered at all
+		if (checkpoint.files.every(file => file.action !== 'created' && !file.restorable)) {
+			new Notice(`OpenCode changed ${checkpoint.files.length} file(s) without a snapshot; restore is unavailable for this turn`);
+			return;
+		}
+
+		const blobs: Record<string, string> = {};
+		preImages.forEach((content, filePath) => {
+			if (content !== null) {
+				blobs[filePath] = content;
+			}
+		});
+
+		const adapter = this.plugin.app.vault.adapter;
+		await this.ensureFolder();
+		await adapter.write(`${this.folder}/${checkpoint.id}.json`, JSON.stringify(blobs));
+		this.checkpoints.push(checkpoint);
+		await this.saveIndex();
+	}
+
+	private async applyCheckpoint(checkpoint: Checkpoint, result: RestoreResult): Promise<void> {
+		const adapter = this.plugin.app.vault.adapter;
+		const blobPath = `${this.folder}/${checkpoint.id}.json`;
+		const blobs: Record<string, string> = await adapter.exists(blobPath)
+			? JSON.parse(await adapter.read(blobPath))
+			: {};
+
+		for (const file of checkpoint.files) {
+			if (file.action === 'created') {
+				if (await adapter.exists(file.path)) {
+					await adapter.remove(file.path);
+				}
+				result.restored.push(file.path);
+			} else if (file.restorable && blobs[file.path] !== undefined) {
+				await this.ensureParentFolder(file.path);
+				await adapter.writeBinary(file.path, base64ToArrayBuffer(blobs[file.path]));
+				result.restored.push(file.path);
+			} else {
+				result.skipped.push(file.path);
+			}
+		}
+	}
+
+	private async readBase64(filePath: string): Promise<string | null> {
+		const adapter = this.plugin.app.vault.adapter;
+		if (!await adapter.exists(filePath)) {
+			return null;
+		}
+		return arrayBufferToBase64(await adapter.readBinary(filePath));
+	}
+
+	private async saveIndex(): Promise<void> {
+		await this.ensureFolder();
+		await this.plugin.app.vault.adapter.write(
+			`${this.folder}/${INDEX_FILE}`,
+			JSON.stringify(this.checkpoints)
+		);
+	}
+
+	private async ensureFolder(): Promise<void> {
+		const adapter = this.plugin.app.vault.adapter;
+		if (!await adapter.exists(this.folder)) {
+			await adapter.mkdir(this.folder);
+		}
+	}
+
+	private async ensureParentFolder(filePath: string): Promise<void> {
+		const index = filePath.lastIndexOf('/');
+		if (index <= 0) return;
+		const parent = filePath.substring(0, index);
+		const adapter = this.plugin.app.vault.adapter;
+		if (!await adapter.exists(parent)) {
+			await adapter.mkdir(parent);
+		}
+	}
+}
@@ -0,0 +1,94 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type OpenCodePlugin from './main';
+import { Checkpoint } from './CheckpointManager';
+import { ConfirmModal } from './ConfirmModal';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export class CheckpointModal extends Modal {
+	plugin: OpenCodePlugin;
+
+	constructor(app: App, plugin: OpenCodePlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen(): void {
+		this.titleEl.setText('OpenCode Checkpoints');
+		this.render();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const checkpoints = this.plugin.checkpointManager.getCheckpoints()
+			.sort((a, b) => b.createdAt - a.createdAt);
+
+		new Setting(contentEl)
+			.setName('Prune checkpoints')
+			.setDesc(`${checkpoints.length} checkpoint(s) stored`)
+			.addButton(button => button
+				.setButtonText('Older than 7 days')
+				.onClick(async () => {
+					const count = await this.plugin.checkpointManager.prune(Date.now() - 7 * DAY);
+					new Notice(`Pruned ${count} checkpoint(s)`);
+					this.render();
+				}))
+			.addButton(button => button
+				.setButtonText('Delete all')
+				.setWarning()
+				.onClick(async () => {
+					const count = await this.plugin.checkpointManager.prune(Infinity);
+					new Notice(`Deleted ${count} checkpoint(s)`);
+					this.render();
+				}));
+
+		if (checkpoints.length === 0) {
+			contentEl.createEl('p', { text: 'No checkpoints recorded yet.', cls: 'setting-item-description' });
+			return;
+		}
+
+		checkpoints.forEach(checkpoint => this.renderCheckpoint(contentEl, checkpoint));
+	}
+
+	private renderCheckpoint(container: HTMLElement, checkpoint: Checkpoint): void {
+		const conversation = this.plugin.conversationStore.getConversationList()
+			.find(c => c.id === checkpoint.conversationId);
+		const skipped = checkpoint.files.filter(f => !f.restorable).length;
+
+		const setting = new Setting(container)
+			.setName(`${new Date(checkpoint.createdAt).toLocaleString()} · ${conversation?.title || 'Deleted conversation'}`)
+			.setDesc(`${checkpoint.files.length} file(s)${skipped ? `, ${skipped} without snapshot` : ''}`)
+			.addButton(button => button
+				.setButtonText('Restore')
+				.onClick(() => {
+					new ConfirmModal(
+						this.app,
+						'Restore the vault to before this message? Changes from this and all later turns of the conversation will be undone.',
+						'Restore',
+						async () => {
+							const result = await this.plugin.checkpointManager.restoreToBefore(checkpoint.messageId);
+							new Notice(`Restored ${result.restored.length} file(s)${result.skipped.length ? `, ${result.skipped.length} could not be restored` : ''}`);
+							this.render();
+						}
+					).open();
+				}))
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Delete checkpoint')
+				.onClick(async () => {
+					await this.plugin.checkpointManager.deleteCheckpoint(checkpoint.id);
+					this.render();
+				}));
+
+		const list = setting.descEl.createEl('ul', { cls: 'opencode-checkpoint-files' });
+		checkpoint.files.forEach(file => {
+			list.createEl('li', { text: `${file.action}: ${file.path}${file.restorable ? '' : ' (no snapshot)'}` });
+		});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
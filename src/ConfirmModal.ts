@@ -0,0 +1,35 @@
+import { App, Modal, Setting } from 'obsidian';
+
+export class ConfirmModal extends Modal {
+	private message: string;
+	private confirmText: string;
+	private onConfirm: () => void;
+
+	constructor(app: App, message: string, confirmText: string, onConfirm: () => void) {
+		super(app);
+		this.message = message;
+		this.confirmText = confirmText;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.createEl('p', { text: this.message });
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText(this.confirmText)
+				.setWarning()
+				.onClick(() => {
+					this.close();
+					this.onConfirm();
+				}));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,93 @@
+import { App, TFile } from 'obsidian';
+import { ContextAttachment } from './types';
+
+const ICONS: Record<ContextAttachment['type'], string> = {
+	file: '📄',
+	folder: '📁',
+	heading: '#',
+	block: '^'
+};
+
+export function getAttachmentLabel(attachment: ContextAttachment): string {
+	switch (attachment.type) {
+		case 'folder':
+			return `${ICONS.folder} ${attachment.path}/`;
+		case 'heading':
+			return `${ICONS.file} ${attachment.path}#${attachment.subpath}`;
+		case 'block':
+			return `${ICONS.file} ${attachment.path}^${attachment.subpath}`;
+		default:
+			return `${ICONS.file} ${attachment.path}`;
+	}
+}
+
+/**
+ * Reads the text of heading and block references so it is kept with the
+ * message. Files and folders stay as paths the agent can open itself.
+ */
+export async function resolveAttachment(app: App, attachment: ContextAttachment): Promise<ContextAttachment> {
+	if (attachment.type !== 'heading' && attachment.type !== 'block') {
+		return attachment;
+	}
+
+	const file = app.vault.getAbstractFileByPath(attachment.path);
+	const cache = file instanceof TFile ? app.metadataCache.getFileCache(file) : null;
+	if (!(file instanceof TFile) || !cache) {
+		return attachment;
+	}
+
+	const text = await app.vault.cachedRead(file);
+	let start = -1;
+	let end = text.length;
+
+	if (attachment.type === 'heading') {
+		const headings = cache.headings || [];
+		const index = headings.findIndex(h => h.heading === attachment.subpath);
+		if (index !== -1) {
+			const heading = headings[index];
+			start = heading.position.start.offset;
+			const next = headings.slice(index + 1).find(h => h.level <= heading.level);
+			if (next) {
+				end = next.position.start.offset;
+			}
+		}
+	} else {
+		const block = attachment.subpath ? cache.blocks?.[attachment.subpath] : undefined;
+		if (block) {
+			start = block.position.start.offset;
+			end = block.position.end.offset;
+		}
+	}
+
+	if (start === -1) {
+		return attachment;
+	}
+	return { ...attachment, content: text.substring(start, end).trim() };
+}
+
+/**
+ * Appends attached references to a prompt: paths for files and folders,
+ * quoted text for sections.
+ */
+export function buildPromptWithContext(message: string, attachments: ContextAttachment[] = []): string {
+	if (attachments.length === 0) {
+		return message;
+	}
+
+	const lines = attachments.map(attachment => {
+		switch (attachment.type) {
+			case 'folder':
+				return `- Folder: ${attachment.path}/`;
+			case 'file':
+				return `- File: ${attachment.path}`;
+			default: {
+				const ref = `${attachment.path}${attachment.type === 'heading' ? '#' : '^'}${attachment.subpath}`;
+				return attachment.content
+					? `- Section ${ref}:\n\n${attachment.content}\n`
+					: `- Section ${ref}`;
+			}
+		}
+	});
+
+	return `${message}\n\nReferenced vault context (paths are relative to the working directory):\n${lines.join('\n')}`;
+}
@@ -0,0 +1,126 @@
+import { App, TFile, moment, normalizePath } from 'obsidian';
+import { ChatMessage, Conversation, OpenCodeSettings } from './types';
+
+/**
+ * Writes a conversation to a Markdown note: frontmatter with model, session
+ * and usage totals, turns as callouts/headings, and tool calls as
+ * collapsible callouts.
+ */
+export class ConversationExporter {
+	private app: App;
+	private settings: OpenCodeSettings;
+
+	constructor(app: App, settings: OpenCodeSettings) {
+		this.app = app;
+		this.settings = settings;
+	}
+
+	async export(conversation: Conversation): Promise<TFile> {
+		const folder = normalizePath(this.settings.exportFolder || '/');
+		if (folder !== '/' && !this.app.vault.getAbstractFileByPath(folder)) {
+			await this.app.vault.createFolder(folder);
+		}
+
+		const baseName = this.buildFilename(conversation);
+		let filePath = normalizePath(`${folder}/${baseName}.md`);
+		let counter = 2;
+		while (this.app.vault.getAbstractFileByPath(filePath)) {
+			filePath = normalizePath(`${folder}/${baseName} ${counter}.md`);
+			counter++;
+		}
+
+		return this.app.vault.create(filePath, this.toMarkdown(conversation));
+	}
+
+	toMarkdown(conversation: Conversation): string {
+		const usage = conversation.usage;
+		const frontmatter = [
+			'---',
+			`title: ${JSON.stringify(conversation.title)}`,
+			`model: ${JSON.stringify(this.getModel(conversation))}`,
+			`sessionID: ${JSON.stringify(conversation.sessionID || '')}`,
+			`createdAt: ${new Date(conversation.createdAt).toISOString()}`,
+			`updatedAt: ${new Date(conversation.updatedAt).toISOString()}`,
+			`tokensInput: ${usage?.input || 0}`,
+			`tokensOutput: ${usage?.output || 0}`,
+			`tokensReasoning: ${usage?.reasoning || 0}`,
+			`tokensCacheRead: ${usage?.cacheRead || 0}`,
+			`tokensCacheWrite: ${usage?.cacheWrite || 0}`,
+			`cost: ${usage?.cost || 0}`,
+			'tags: [opencode]',
+			'---'
+		];
+
+		const sections = conversation.messages.map(msg => this.formatMessage(msg)).filter(Boolean);
+		return `${frontmatter.join('\n')}\n\n# ${conversation.title}\n\n${sections.join('\n\n')}\n`;
+	}
+
+	private formatMessage(msg: ChatMessage): string {
+		const time = moment(msg.timestamp).format('YYYY-MM-DD HH:mm');
+
+		switch (msg.role) {
+			case 'user':
+				return callout('question', `User · ${time}`, msg.content);
+			case 'assistant':
+				return `## Assistant · ${time}\n\n${msg.content}${msg.interrupted ? '\n\n*(interrupted)*' : ''}`;
+			case 'reasoning':
+				return callout('abstract', 'Thinking', msg.content, true);
+			case 'system':
+				return callout('info', 'System', msg.content);
+			case 'tool': {
+				const parts: string[] = [];
+				if (msg.toolInput && Object.keys(msg.toolInput).length > 0) {
+					parts.push('**Input**', fence(JSON.stringify(msg.toolInput, null, 2), 'json'));
+				}
+				if (msg.toolOutput) {
+					parts.push('**Output**', fence(msg.toolOutput));
+				}
+				const title = `🔧 ${msg.toolTitle || msg.toolName || 'tool'} (${msg.toolStatus || 'unknown'})`;
+				return callout('example', title, parts.join('\n\n'), true);
+			}
+			default:
+				return '';
+		}
+	}
+
+	private getModel(conversation: Conversation): string {
+		if (conversation.model) {
+			return conversation.model;
+		}
+		return this.settings.model.includes('/')
+			? this.settings.model
+			: `${this.settings.provider}/${this.settings.model}`;
+	}
+
+	private buildFilename(conversation: Conversation): string {
+		const created = moment(conversation.createdAt);
+		// Function replacers keep `$` in titles from being read as patterns
+		const name = (this.settings.exportFilenameTemplate || '{{title}}')
+			.replace(/{{title}}/g, () => conversation.title)
+			.replace(/{{date}}/g, () => created.format('YYYY-MM-DD'))
+			.replace(/{{time}}/g, () => created.format('HH-mm'))
+			.replace(/{{model}}/g, () => this.getModel(conversation).replace(/\//g, '-'))
+			.replace(/{{id}}/g, () => conversation.id);
+
+		return name.replace(/[\\/:*?"<>|#^[\]]/g, '-').replace(/\s+/g, ' ').trim() || conversation.id;
+	}
+}
+
+function callout(type: string, title: string, body: string, folded: boolean = false): string {
+	const header = `> [!${type}]${folded ? '-' : ''} ${title}`;
+	if (!body.trim()) {
+		return header;
+	}
+	const lines = body.split('\n').map(line => line ? `> ${line}` : '>');
+	return `${header}\n${lines.join('\n')}`;
+}
+
+// Use a fence longer than any backtick run inside the content
+function fence(content: string, lang: string = ''): string {
+	let longest = 0;
+	for (const run of content.match(/`+/g) || []) {
+		longest = Math.max(longest, run.length);
+	}
+	const ticks = '`'.repeat(Math.max(3, longest + 1));
+	return `${ticks}${lang}\n${content}\n${ticks}`;
+}
@@ -0,0 +1,172 @@
+import { ConversationStore } from './ConversationStore';
+import { ChatMessage, Conversation } from './types';
+
+export interface SearchFilters {
+	model?: string;
+	conversationId?: string;
+	from?: number;
+	to?: number;
+}
+
+export interface SearchResult {
+	conversationId: string;
+	conversationTitle: string;
+	messageId: string;
+	role: ChatMessage['role'];
+	toolName?: string;
+	timestamp: number;
+	snippet: string;
+	// [start, end) offsets of matched terms within snippet
+	highlights: [number, number][];
+	score: number;
+}
+
+interface SearchDocument {
+	conversationId: string;
+	conversationTitle: string;
+	model: string;
+	messageId: string;
+	role: ChatMessage['role'];
+	toolName?: string;
+	timestamp: number;
+	text: string;
+	lowerText: string;
+}
+
+const SNIPPET_RADIUS = 60;
+const MAX_RESULTS = 100;
+
+/**
+ * In-memory full-text index over every message in ConversationStore,
+ * including archived conversations. Tool names and inputs are indexed
+ * alongside message content.
+ */
+export class ConversationSearchIndex {
+	private store: ConversationStore;
+	private documents: SearchDocument[] = [];
+	// Archived conversations are read from disk once per revision
+	private archivedCache: Map<string, { updatedAt: number; documents: SearchDocument[] }> = new Map();
+
+	constructor(store: ConversationStore) {
+		this.store = store;
+	}
+
+	async build(): Promise<void> {
+		const documents: SearchDocument[] = [];
+
+		for (const { id } of this.store.getConversationList()) {
+			const conversation = this.store.getConversation(id);
+			if (conversation) {
+				documents.push(...this.toDocuments(conversation));
+			}
+		}
+
+		for (const summary of this.store.getArchivedList()) {
+			let cached = this.archivedCache.get(summary.id);
+			if (!cached || cached.updatedAt !== summary.updatedAt) {
+				const conversation = await this.store.loadArchivedConversation(summary.id);
+				cached = {
+					updatedAt: summary.updatedAt,
+					documents: conversation ? this.toDocuments(conversation) : []
+				};
+				this.archivedCache.set(summary.id, cached);
+			}
+			documents.push(...cached.documents);
+		}
+
+		this.documents = documents;
+	}
+
+	getModels(): string[] {
+		return Array.from(new Set(this.documents.map(d => d.model).filter(Boolean))).sort();
+	}
+
+	getConversations(): { id: string; title: string }[] {
+		const seen = new Map<string, string>();
+		this.documents.forEach(d => seen.set(d.conversationId, d.conversationTitle));
+		return Array.from(seen, ([id, title]) => ({ id, title }));
+	}
+
+	search(query: string, filters: SearchFilters = {}): SearchResult[] {
+		const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+		if (terms.length === 0) return [];
+
+		const results: SearchResult[] = [];
+		for (const doc of this.documents) {
+			if (filters.model && doc.model !== filters.model) continue;
+			if (filters.conversationId && doc.conversationId !== filters.conversationId) continue;
+			if (filters.from !== undefined && doc.timestamp < filters.from) continue;
+			if (filters.to !== undefined && doc.timestamp > filters.to) continue;
+			if (!terms.every(term => doc.lowerText.includes(term))) continue;
+
+			let score = 0;
+			for (const term of terms) {
+				score += doc.lowerText.split(term).length - 1;
+			}
+
+			results.push({
+				conversationId: doc.conversationId,
+				conversationTitle: doc.conversationTitle,
+				messageId: doc.messageId,
+				role: doc.role,
+				toolName: doc.toolName,
+				timestamp: doc.timestamp,
+				score,
+				...this.buildSnippet(doc, terms)
+			});
+		}
+
+		return results
+			.sort((a, b) => b.score - a.score || b.timestamp - a.timestamp)
+			.slice(0, MAX_RESULTS);
+	}
+
+	private toDocuments(conversation: Conversation): SearchDocument[] {
+		return conversation.messages.map(msg => {
+			const parts = [msg.content];
+			if (msg.role === 'tool') {
+				parts.push(msg.toolName || '', msg.toolTitle || '');
+				if (msg.toolInput) {
+					parts.push(JSON.stringify(msg.toolInput));
+				}
+			}
+			const text = parts.filter(Boolean).join('\n');
+
+			return {
+				conversationId: conversation.id,
+				conversationTitle: conversation.title,
+				model: conversation.model || '',
+				messageId: msg.id,
+				role: msg.role,
+				toolName: msg.toolName,
+				timestamp: new Date(msg.timestamp).getTime(),
+				text,
+				lowerText: text.toLowerCase()
+			};
+		});
+	}
+
+	private buildSnippet(doc: SearchDocument, terms: string[]): { snippet: string; highlights: [number, number][] } {
+		const first = Math.min(...terms.map(term => doc.lowerText.indexOf(term)));
+		const start = Math.max(0, first - SNIPPET_RADIUS);
+		const end = Math.min(doc.text.length, first + SNIPPET_RADIUS * 2);
+
+		const prefix = start > 0 ? '…' : '';
+		const suffix = end < doc.text.length ? '…' : '';
+		const body = doc.text.substring(start, end).replace(/\s+/g, ' ');
+		const snippet = `${prefix}${body}${suffix}`;
+
+		const lowerSnippet = snippet.toLowerCase();
+		const highlights: [number, number][] = [];
+		for (const term of terms) {
+			let index = lowerSnippet.indexOf(term);
+			while (index !== -1) {
+				highlights.push([index, index + term.length]);
+				index = lowerSnippet.indexOf(term, index + term.length);
+			}
+		}
+		highlights.sort((a, b) => a[0] - b[0]);
+
+		return { snippet, highlights };
+	}
+}
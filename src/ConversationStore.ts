@@ -1,31 +1,233 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import type OpenCodePlugin from './main';
-import { Conversation, ChatMessage } from './types';
+import { Conversation, ChatMessage, StepFinishEvent, UsageRecord } from './types';
 
-const STORAGE_KEY = 'opencode-conversations';
-const MAX_CONVERSATIONS = 20;
+const LEGACY_STORAGE_KEY = 'opencode-conversations';
+const INDEX_FILE = 'index.json';
+const ARCHIVE_FOLDER = 'archive';
+const SAVE_DELAY = 1000;
+const DAY = 24 * 60 * 60 * 1000;
 
+export interface ConversationSummary {
+	id: string;
+	title: string;
+	createdAt: number;
+	updatedAt: number;
+	messageCount: number;
+	sessionID: string | null;
+	archived: boolean;
+	parentId?: string;
+}
+
+interface ConversationIndex {
+	version: 1;
+	activeConversationId: string | null;
+	conversations: ConversationSummary[];
+	// Runs outside any conversation, e.g. editor commands
+	oneOffUsage?: UsageRecord[];
+	// Running cost of the month, so budget checks need not read every conversation
+	monthlyCost?: MonthlyCost;
+}
+
+interface MonthlyCost {
+	month: string;
+	cost: number;
+}
+
+/**
+ * Conversations live in one JSON file each under the plugin folder, with an
+ * index file listing them. Writes are debounced and atomic (temp file +
+ * rename). Stale conversations move to an archive folder and are only read
+ * from disk when opened.
+ */
 export class ConversationStore {
 	private plugin: OpenCodePlugin;
 	private conversations: Conversation[] = [];
+	private archived: ConversationSummary[] = [];
 	private activeConversationId: string | null = null;
+	private oneOffUsage: UsageRecord[] = [];
+	private monthlyCost: MonthlyCost = { month: currentMonth(), cost: 0 };
+	private dirty: Set<string> = new Set();
+	private saveTimer: ReturnType<typeof setTimeout> | null = null;
+	private writeChain: Promise<void> = Promise.resolve();
 
 	constructor(plugin: OpenCodePlugin) {
 		this.plugin = plugin;
 	}
 
+	private get folder(): string {
+		const basePath = (this.plugin.app.vault.adapter as any).basePath || '';
+		return path.join(basePath, this.plugin.app.vault.configDir, 'plugins', this.plugin.manifest.id, 'conversations');
+	}
+
+	private conversationPath(id: string, archived: boolean = false): string {
+		return archived
+			? path.join(this.folder, ARCHIVE_FOLDER, `${id}.json`)
+			: path.join(this.folder, `${id}.json`);
+	}
+
 	async load(): Promise<void> {
+		await fs.promises.mkdir(path.join(this.folder, ARCHIVE_FOLDER), { recursive: true });
+
+		const index = await this.readJson<ConversationIndex>(path.join(this.folder, INDEX_FILE));
+		if (!index) {
+			await this.migrateLegacyData();
+			await this.loadMonthlyCost();
+			return;
+		}
+
+		this.activeConversationId = index.activeConversationId;
+		this.oneOffUsage = index.oneOffUsage || [];
+		this.archived = index.conversations.filter(c => c.archived);
+
+		for (const summary of index.conversations.filter(c => !c.archived)) {
+			const conversation = await this.readJson<Conversation>(this.conversationPath(summary.id));
+			if (conversation) {
+				this.conversations.push(conversation);
+			}
+		}
+		this.conversations.sort((a, b) => b.createdAt - a.createdAt);
+
+		await this.loadMonthlyCost(index.monthlyCost);
+		await this.archiveStaleConversations();
+	}
+
+	/**
+	 * Restores the running total of this month, adding up the usage records
+	 * once when the index predates it.
+	 */
+	private async loadMonthlyCost(stored?: MonthlyCost): Promise<void> {
+		const month = currentMonth();
+		if (stored) {
+			this.monthlyCost = stored.month === month ? stored : { month, cost: 0 };
+			return;
+		}
+
+		const now = new Date();
+		const entries = await this.getUsageRecords(new Date(now.getFullYear(), now.getMonth(), 1).getTime());
+		const cost = entries.reduce((total, entry) =>
+			total + entry.records.reduce((sum, record) => sum + record.cost, 0), 0);
+		this.monthlyCost = { month, cost };
+		this.scheduleSave();
+	}
+
+	/**
+	 * Moves conversations out of the shared data.json, where they used to be
+	 * kept as a capped array next to the settings.
+	 */
+	private async migrateLegacyData(): Promise<void> {
 		const data = await this.plugin.loadData();
-		if (data && data[STORAGE_KEY]) {
-			this.conversations = data[STORAGE_KEY] || [];
-			this.activeConversationId = data['activeConversationId'] || null;
+		const legacy: Conversation[] = data?.[LEGACY_STORAGE_KEY] || [];
+
+		this.conversations = legacy;
+		this.activeConversationId = data?.['activeConversationId'] || null;
+		legacy.forEach(c => this.dirty.add(c.id));
+		await this.save();
+
+		if (data && (LEGACY_STORAGE_KEY in data || 'activeConversationId' in data)) {
+			delete data[LEGACY_STORAGE_KEY];
+			delete data['activeConversationId'];
+			// Settings were loaded from the same object; keep them from writing the keys back
+			const settings = this.plugin.settings as unknown as Record<string, unknown>;
+			delete settings[LEGACY_STORAGE_KEY];
+			delete settings['activeConversationId'];
+			await this.plugin.saveData(data);
 		}
 	}
 
+	private async archiveStaleConversations(): Promise<void> {
+		const days = this.plugin.settings.archiveAfterDays;
+		if (!days || days <= 0) return;
+
+		const cutoff = Date.now() - days * DAY;
+		const stale = this.conversations.filter(c => c.updatedAt < cutoff && c.id !== this.activeConversationId);
+		for (const conversation of stale) {
+			await this.archiveConversation(conversation.id);
+		}
+	}
+
+	/**
+	 * Writes pending changes immediately.
+	 */
 	async save(): Promise<void> {
-		const data = await this.plugin.loadData() || {};
-		data[STORAGE_KEY] = this.conversations.slice(0, MAX_CONVERSATIONS);
-		data['activeConversationId'] = this.activeConversationId;
-		await this.plugin.saveData(data);
+		if (this.saveTimer) {
+			clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+		}
+
+		const ids = Array.from(this.dirty);
+		this.dirty.clear();
+
+		this.writeChain = this.writeChain.then(async () => {
+			for (const id of ids) {
+				const conversation = this.conversations.find(c => c.id === id);
+				if (conversation) {
+					await this.writeAtomic(this.conversationPath(id), JSON.stringify(conversation));
+				}
+			}
+			await this.writeAtomic(path.join(this.folder, INDEX_FILE), JSON.stringify(this.buildIndex()));
+		}).catch(error => {
+			console.error('Failed to save conversations:', error);
+		});
+
+		await this.writeChain;
+	}
+
+	private scheduleSave(id?: string): void {
+		if (id) {
+			this.dirty.add(id);
+		}
+		if (this.saveTimer) {
+			clearTimeout(this.saveTimer);
+		}
+		this.saveTimer = setTimeout(() => {
+			this.saveTimer = null;
+			this.save();
+		}, SAVE_DELAY);
+	}
+
+	private buildIndex(): ConversationIndex {
+		return {
+			version: 1,
+			activeConversationId: this.activeConversationId,
+			oneOffUsage: this.oneOffUsage,
+			monthlyCost: this.monthlyCost,
+			conversations: [
+				...this.conversations.map(c => this.summarize(c, false)),
+				...this.archived
+			]
+		};
+	}
+
+	private summarize(conversation: Conversation, archived: boolean): ConversationSummary {
+		return {
+			id: conversation.id,
+			title: conversation.title,
+			createdAt: conversation.createdAt,
+			updatedAt: conversation.updatedAt,
+			messageCount: conversation.messages.length,
+			sessionID: conversation.sessionID,
+			archived,
+			parentId: conversation.parentId
+		};
+	}
+
+	private async writeAtomic(filePath: string, content: string): Promise<void> {
+		const tempPath = `${filePath}.tmp`;
+		await fs.promises.writeFile(tempPath, content, 'utf8');
+		await fs.promises.rename(tempPath, filePath);
+	}
+
+	private async readJson<T>(filePath: string): Promise<T | null> {
+		try {
+			return JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as T;
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+				console.error(`Failed to read ${filePath}:`, error);
+			}
+			return null;
+		}
 	}
 
 	createConversation(title?: string): Conversation {
@@ -39,7 +241,7 @@ export class ConversationStore {
 		};
 		this.conversations.unshift(conversation);
 		this.activeConversationId = conversation.id;
-		this.save();
+		this.scheduleSave(conversation.id);
 		return conversation;
 	}
 
@@ -64,11 +266,29 @@ export class ConversationStore {
 		const conversation = this.conversations.find(c => c.id === id);
 		if (conversation) {
 			this.activeConversationId = id;
-			this.save();
+			this.scheduleSave();
 		}
 		return conversation || null;
 	}
 
+	/**
+	 * Like setActiveConversation, but also brings archived conversations back.
+	 */
+	async openConversation(id: string): Promise<Conversation | null> {
+		if (this.archived.some(c => c.id === id)) {
+			await this.unarchiveConversation(id);
+		}
+		return this.setActiveConversation(id);
+	}
+
+	getConversation(id: string): Conversation | null {
+		return this.conversations.find(c => c.id === id) || null;
+	}
+
+	getConversationBySessionID(sessionID: string): Conversation | null {
+		return this.conversations.find(c => c.sessionID === sessionID) || null;
+	}
+
 	getConversationList(): { id: string; title: string; updatedAt: number; messageCount: number }[] {
 		return this.conversations.map(c => ({
 			id: c.id,
@@ -78,11 +298,96 @@ export class ConversationStore {
 		}));
 	}
 
+	/**
+	 * Summaries of the active and archived conversations in the same fork
+	 * tree as the given one, starting from its root.
+	 */
+	getForkFamily(id: string): ConversationSummary[] {
+		const all = [
+			...this.conversations.map(c => this.summarize(c, false)),
+			...this.archived
+		];
+		const byId = new Map(all.map(c => [c.id, c]));
+
+		let root = byId.get(id);
+		while (root?.parentId && byId.has(root.parentId)) {
+			root = byId.get(root.parentId);
+		}
+		if (!root) return [];
+
+		const family: ConversationSummary[] = [];
+		const visit = (node: ConversationSummary) => {
+			family.push(node);
+			all.filter(c => c.parentId === node.id)
+				.sort((a, b) => a.createdAt - b.createdAt)
+				.forEach(visit);
+		};
+		visit(root);
+		return family;
+	}
+
+	getArchivedList(): ConversationSummary[] {
+		return [...this.archived].sort((a, b) => b.updatedAt - a.updatedAt);
+	}
+
+	async loadArchivedConversation(id: string): Promise<Conversation | null> {
+		return this.readJson<Conversation>(this.conversationPath(id, true));
+	}
+
+	async archiveConversation(id: string): Promise<void> {
+		const index = this.conversations.findIndex(c => c.id === id);
+		if (index === -1) return;
+
+		const [conversation] = this.conversations.splice(index, 1);
+		this.dirty.delete(id);
+		this.archived.push(this.summarize(conversation, true));
+		if (this.activeConversationId === id) {
+			this.activeConversationId = this.conversations[0]?.id || null;
+		}
+
+		await this.writeChain;
+		await this.writeAtomic(this.conversationPath(id, true), JSON.stringify(conversation));
+		await fs.promises.rm(this.conversationPath(id), { force: true });
+		await this.save();
+	}
+
+	async unarchiveConversation(id: string): Promise<void> {
+		const conversation = await this.loadArchivedConversation(id);
+		this.archived = this.archived.filter(c => c.id !== id);
+		if (!conversation) {
+			await this.save();
+			return;
+		}
+
+		this.conversations.unshift(conversation);
+		this.dirty.add(id);
+		await this.save();
+		await fs.promises.rm(this.conversationPath(id, true), { force: true });
+	}
+
+	/**
+	 * Creates a new conversation holding a copy of the history up to and
+	 * including the given message. It starts without a session.
+	 */
+	forkConversation(id: string, messageId: string): Conversation | null {
+		const source = this.conversations.find(c => c.id === id);
+		const index = source?.messages.findIndex(m => m.id === messageId) ?? -1;
+		if (!source || index === -1) return null;
+
+		const fork = this.createConversation(`⑂ ${source.title.replace(/^⑂ /, '')}`);
+		fork.messages = JSON.parse(JSON.stringify(source.messages.slice(0, index + 1)));
+		fork.model = source.model;
+		fork.parentId = source.id;
+		fork.forkedFromMessageId = messageId;
+		fork.seedPending = true;
+		return fork;
+	}
+
 	updateConversation(id: string, updates: Partial<Conversation>): void {
 		const conversation = this.conversations.find(c => c.id === id);
 		if (conversation) {
 			Object.assign(conversation, updates, { updatedAt: Date.now() });
-			this.save();
+			this.scheduleSave(id);
 		}
 	}
 
@@ -91,25 +396,214 @@ export class ConversationStore {
 		if (conversation) {
 			conversation.messages.push(message);
 			conversation.updatedAt = Date.now();
-			
+
 			if (conversation.messages.length === 1 && message.role === 'user') {
-				conversation.title = message.content.substring(0, 50) + 
+				conversation.title = message.content.substring(0, 50) +
 					(message.content.length > 50 ? '...' : '');
 			}
-			
-			this.save();
+
+			this.scheduleSave(conversationId);
+		}
+	}
+
+	insertMessageBefore(conversationId: string, beforeMessageId: string, message: ChatMessage): void {
+		const conversation = this.conversations.find(c => c.id === conversationId);
+		const index = conversation?.messages.findIndex(m => m.id === beforeMessageId) ?? -1;
+		if (!conversation || index === -1) return;
+
+		conversation.messages.splice(index, 0, message);
+		conversation.updatedAt = Date.now();
+		this.scheduleSave(conversationId);
+	}
+
+	updateMessage(conversationId: string, messageId: string, updates: Partial<ChatMessage>): void {
+		const conversation = this.conversations.find(c => c.id === conversationId);
+		const message = conversation?.messages.find(m => m.id === messageId);
+		if (conversation && message) {
+			Object.assign(message, updates);
+			conversation.updatedAt = Date.now();
+			this.scheduleSave(conversationId);
+		}
+	}
+
+	/**
+	 * Drops every message after the given one and returns them.
+	 */
+	truncateAfter(conversationId: string, messageId: string): ChatMessage[] {
+		const conversation = this.conversations.find(c => c.id === conversationId);
+		const index = conversation?.messages.findIndex(m => m.id === messageId) ?? -1;
+		if (!conversation || index === -1) return [];
+
+		const removed = conversation.messages.splice(index + 1);
+		conversation.updatedAt = Date.now();
+		this.scheduleSave(conversationId);
+		return removed;
+	}
+
+	/**
+	 * Drops the given message and every message after it.
+	 */
+	removeMessagesFrom(conversationId: string, messageId: string): ChatMessage[] {
+		const conversation = this.conversations.find(c => c.id === conversationId);
+		const index = conversation?.messages.findIndex(m => m.id === messageId) ?? -1;
+		if (!conversation || index === -1) return [];
+
+		const removed = conversation.messages.splice(index);
+		conversation.updatedAt = Date.now();
+		this.scheduleSave(conversationId);
+		return removed;
+	}
+
+	/**
+	 * Keeps the current response to a user message as a version, clears it
+	 * from the conversation and makes room for a new one.
+	 */
+	startResponseVersion(conversationId: string, userMessageId: string): void {
+		const conversation = this.conversations.find(c => c.id === conversationId);
+		const prompt = conversation?.messages.find(m => m.id === userMessageId);
+		if (!conversation || !prompt) return;
+
+		const current = this.truncateAfter(conversationId, userMessageId);
+		const versions = prompt.responseVersions || [];
+		versions[prompt.activeVersion ?? 0] = current;
+		versions.push([]);
+		prompt.responseVersions = versions;
+		prompt.activeVersion = versions.length - 1;
+	}
+
+	/**
+	 * Swaps the response shown after a user message for another stored
+	 * version. Only the latest turn has versions, so the response runs to
+	 * the end of the conversation.
+	 */
+	switchResponseVersion(conversationId: string, userMessageId: string, version: number): boolean {
+		const conversation = this.conversations.find(c => c.id === conversationId);
+		const prompt = conversation?.messages.find(m => m.id === userMessageId);
+		const versions = prompt?.responseVersions;
+		if (!conversation || !prompt || !versions || version < 0 || version >= versions.length) {
+			return false;
+		}
+
+		versions[prompt.activeVersion ?? 0] = this.truncateAfter(conversationId, userMessageId);
+		conversation.messages.push(...versions[version]);
+		prompt.activeVersion = version;
+		return true;
+	}
+
+	/**
+	 * Records one step's usage and keeps the conversation totals in sync.
+	 * Without a conversation the step counts as a one-off run.
+	 */
+	addUsage(conversationId: string | null, event: StepFinishEvent, model: string): void {
+		if (!event.tokens && !event.cost) return;
+		const conversation = this.conversations.find(c => c.id === conversationId);
+
+		const record: UsageRecord = {
+			timestamp: Date.now(),
+			model,
+			input: event.tokens?.input || 0,
+			output: event.tokens?.output || 0,
+			reasoning: event.tokens?.reasoning || 0,
+			cacheRead: event.tokens?.cache?.read || 0,
+			cacheWrite: event.tokens?.cache?.write || 0,
+			cost: event.cost || 0
+		};
+		this.addMonthlyCost(record.cost);
+		if (!conversation) {
+			this.oneOffUsage.push(record);
+			this.scheduleSave();
+			return;
+		}
+		if (!conversation.usageLog) {
+			conversation.usageLog = [];
+		}
+		conversation.usageLog.push(record);
+
+		const usage = conversation.usage || { input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, cost: 0 };
+		usage.input += record.input;
+		usage.output += record.output;
+		usage.reasoning += record.reasoning;
+		usage.cacheRead += record.cacheRead;
+		usage.cacheWrite += record.cacheWrite;
+		usage.cost += record.cost;
+		conversation.usage = usage;
+		this.scheduleSave(conversation.id);
+	}
+
+	/**
+	 * Usage records of every conversation, including archived ones updated
+	 * on or after `since`.
+	 */
+	async getUsageRecords(since: number = 0): Promise<{ conversationId: string; title: string; records: UsageRecord[] }[]> {
+		const result = this.conversations.map(c => ({
+			conversationId: c.id,
+			title: c.title,
+			records: this.getUsageLog(c).filter(r => r.timestamp >= since)
+		}));
+
+		for (const summary of this.archived.filter(c => c.updatedAt >= since)) {
+			const conversation = await this.loadArchivedConversation(summary.id);
+			if (conversation) {
+				result.push({
+					conversationId: conversation.id,
+					title: conversation.title,
+					records: this.getUsageLog(conversation).filter(r => r.timestamp >= since)
+				});
+			}
 		}
+
+		result.push({
+			conversationId: '',
+			title: 'Editor commands and summaries',
+			records: this.oneOffUsage.filter(r => r.timestamp >= since)
+		});
+
+		return result.filter(entry => entry.records.length > 0);
+	}
+
+	// Conversations saved before per-step records only have totals; count them once at their last update
+	private getUsageLog(conversation: Conversation): UsageRecord[] {
+		if (conversation.usageLog) {
+			return conversation.usageLog;
+		}
+		if (!conversation.usage) {
+			return [];
+		}
+		return [{ ...conversation.usage, timestamp: conversation.updatedAt, model: conversation.model || '' }];
+	}
+
+	/**
+	 * Cost of every run since the start of the current month.
+	 */
+	getMonthlyCost(): number {
+		return this.monthlyCost.month === currentMonth() ? this.monthlyCost.cost : 0;
+	}
+
+	private addMonthlyCost(cost: number): void {
+		const month = currentMonth();
+		if (this.monthlyCost.month !== month) {
+			this.monthlyCost = { month, cost: 0 };
+		}
+		this.monthlyCost.cost += cost;
 	}
 
 	deleteConversation(id: string): void {
 		const index = this.conversations.findIndex(c => c.id === id);
+		const wasArchived = this.archived.some(c => c.id === id);
+		if (index === -1 && !wasArchived) return;
+
 		if (index !== -1) {
 			this.conversations.splice(index, 1);
-			if (this.activeConversationId === id) {
-				this.activeConversationId = this.conversations[0]?.id || null;
-			}
-			this.save();
 		}
+		this.archived = this.archived.filter(c => c.id !== id);
+		this.dirty.delete(id);
+		if (this.activeConversationId === id) {
+			this.activeConversationId = this.conversations[0]?.id || null;
+		}
+
+		this.writeChain = this.writeChain.then(() => fs.promises.rm(this.conversationPath(id, wasArchived), { force: true }))
+			.catch(error => console.error('Failed to delete conversation file:', error));
+		this.scheduleSave();
 	}
 
 	getOrCreateActiveConversation(): Conversation {
@@ -120,3 +614,8 @@ export class ConversationStore {
 		return conversation;
 	}
 }
+
+function currentMonth(): string {
+	const now = new Date();
+	return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+}
@@ -0,0 +1,239 @@
+import { App, Notice, normalizePath } from 'obsidian';
+import * as path from 'path';
+import { ToolEvent, ToolReview } from './types';
+import { diffLines, toHunks, undoReplacement } from './LineDiff';
+
+const EDIT_TOOLS = ['edit', 'write', 'patch', 'multiedit'];
+
+interface FileSnapshot {
+	path: string;
+	before: string | null;
+}
+
+export interface EditReviewOptions {
+	review?: ToolReview;
+	onReview: (review: ToolReview) => void;
+	// True once a newer render of the same tool call has started
+	isStale?: () => boolean;
+}
+
+/**
+ * Vault-relative paths of the files an edit tool call targets.
+ * Paths outside the vault are dropped.
+ */
+export function getToolTargetPaths(event: ToolEvent, vaultPath: string): string[] {
+	const input = event.input || {};
+	const candidates: string[] = [];
+
+	if (typeof input.filePath === 'string') {
+		candidates.push(input.filePath);
+	}
+	if (typeof input.patchText === 'string') {
+		const pattern = /^\*\*\* (?:Update|Add|Delete) File: (.+)$/gm;
+		let match: RegExpExecArray | null;
+		while ((match = pattern.exec(input.patchText)) !== null) {
+			candidates.push(match[1].trim());
+		}
+	}
+
+	return candidates
+		.map(candidate => toVaultPath(candidate, vaultPath))
+		.filter((candidate): candidate is string => candidate !== null);
+}
+
+function toVaultPath(filePath: string, vaultPath: string): string | null {
+	let relative = filePath;
+	if (path.isAbsolute(filePath)) {
+		relative = path.relative(vaultPath, filePath);
+		if (relative.startsWith('..') || path.isAbsolute(relative)) {
+			return null;
+		}
+	}
+	return normalizePath(relative);
+}
+
+/**
+ * Snapshots vault files before the agent edits them and renders a
+ * reviewable diff with open / revert / accept actions.
+ */
+export class EditReview {
+	private app: App;
+	private vaultPath: string;
+	private snapshots: Map<string, Promise<FileSnapshot[]>> = new Map();
+
+	constructor(app: App) {
+		this.app = app;
+		this.vaultPath = (app.vault.adapter as any).basePath || '';
+	}
+
+	static isEditTool(name: string): boolean {
+		return EDIT_TOOLS.includes(name);
+	}
+
+	/**
+	 * Records the current content of every file the tool call targets.
+	 * Must run before the tool completes; later calls for the same callID are ignored.
+	 */
+	snapshot(event: ToolEvent): void {
+		if (this.snapshots.has(event.callID)) return;
+
+		const paths = this.getTargetPaths(event);
+		if (paths.length === 0) return;
+
+		this.snapshots.set(event.callID, Promise.all(paths.map(async filePath => ({
+			path: filePath,
+			before: await this.readFile(filePath)
+		}))));
+	}
+
+	/**
+	 * Best-effort baseline for edits first seen after they completed:
+	 * reverses a single `edit` replacement on the current content.
+	 */
+	async reconstructSnapshot(event: ToolEvent): Promise<void> {
+		if (this.snapshots.has(event.callID) || event.name !== 'edit') return;
+
+		const [filePath] = this.getTargetPaths(event);
+		const oldString = event.input?.oldString;
+		const newString = event.input?.newString;
+		if (!filePath || typeof oldString !== 'string' || typeof newString !== 'string' || !newString) return;
+
+		const current = await this.readFile(filePath);
+		const before = current === null ? null : undoReplacement(current, oldString, newString);
+		if (before === null) return;
+
+		this.snapshots.set(event.callID, Promise.resolve([{ path: filePath, before }]));
+	}
+
+	getTargetPaths(event: ToolEvent): string[] {
+		return getToolTargetPaths(event, this.vaultPath);
+	}
+
+	async render(container: HTMLElement, event: ToolEvent, options: EditReviewOptions): Promise<void> {
+		if (!options.review) {
+			await this.reconstructSnapshot(event);
+		}
+
+		const files = await this.snapshots.get(event.callID);
+		const contents = files ? await Promise.all(files.map(file => this.readFile(file.path))) : [];
+
+		// The block may have been replaced while the files were read
+		if (!container.isConnected || options.isStale?.()) return;
+
+		const reviewEl = container.createDiv({ cls: 'opencode-edit-review' });
+		if (files) {
+			files.forEach((file, index) => this.renderDiff(reviewEl, file.path, file.before ?? '', contents[index] ?? ''));
+		} else {
+			this.renderInputDiff(reviewEl, event);
+		}
+
+		const actions = reviewEl.createDiv({ cls: 'opencode-edit-actions' });
+		const paths = files ? files.map(file => file.path) : this.getTargetPaths(event);
+
+		paths.forEach(filePath => {
+			const openBtn = actions.createEl('button', {
+				cls: 'opencode-btn',
+				text: paths.length > 1 ? `Open ${path.basename(filePath)}` : 'Open file'
+			});
+			openBtn.addEventListener('click', () => {
+				this.app.workspace.openLinkText(filePath, '', true);
+			});
+		});
+
+		if (options.review) {
+			actions.createSpan({
+				cls: `opencode-edit-review-state review-${options.review}`,
+				text: options.review === 'accepted' ? '✓ Accepted' : '↩ Reverted'
+			});
+			return;
+		}
+
+		if (files) {
+			const revertBtn = actions.createEl('button', { cls: 'opencode-btn mod-warning', text: 'Revert this change' });
+			revertBtn.addEventListener('click', async () => {
+				try {
+					await this.revert(event.callID);
+					new Notice(`Reverted ${paths.join(', ')}`);
+					options.onReview('reverted');
+				} catch (error) {
+					new Notice(`Failed to revert: ${error instanceof Error ? error.message : error}`);
+				}
+			});
+		}
+
+		const acceptBtn = actions.createEl('button', { cls: 'opencode-btn mod-cta', text: 'Accept' });
+		acceptBtn.addEventListener('click', () => {
+			this.snapshots.delete(event.callID);
+			options.onReview('accepted');
+		});
+	}
+
+	async revert(callID: string): Promise<void> {
+		const files = await this.snapshots.get(callID);
+		if (!files) {
+			throw new Error('No snapshot available for this change');
+		}
+
+		const adapter = this.app.vault.adapter;
+		for (const file of files) {
+			if (file.before === null) {
+				if (await adapter.exists(file.path)) {
+					await adapter.remove(file.path);
+				}
+			} else {
+				await adapter.write(file.path, file.before);
+			}
+		}
+		this.snapshots.delete(callID);
+	}
+
+	// Without a snapshot (e.g. reloaded history) fall back to what the tool input describes
+	private renderInputDiff(container: HTMLElement, event: ToolEvent): void {
+		const input = event.input || {};
+		const [filePath] = this.getTargetPaths(event);
+		const label = filePath || event.title || event.name;
+
+		if (typeof input.oldString === 'string' && typeof input.newString === 'string') {
+			this.renderDiff(container, label, input.oldString, input.newString);
+		} else if (typeof input.content === 'string') {
+			this.renderDiff(container, label, '', input.content);
+		} else if (typeof input.patchText === 'string') {
+			const pre = container.createEl('pre', { cls: 'opencode-diff' });
+			pre.textContent = input.patchText;
+		}
+	}
+
+	private renderDiff(container: HTMLElement, filePath: string, before: string, after: string): void {
+		const fileEl = container.createDiv({ cls: 'opencode-diff-file' });
+		fileEl.createDiv({ cls: 'opencode-diff-path', text: filePath });
+
+		const hunks = toHunks(diffLines(before, after));
+		if (hunks.length === 0) {
+			fileEl.createDiv({ cls: 'opencode-diff-empty', text: 'No changes' });
+			return;
+		}
+
+		const table = fileEl.createDiv({ cls: 'opencode-diff' });
+		for (const hunk of hunks) {
+			table.createDiv({
+				cls: 'opencode-diff-hunk',
+				text: `@@ -${hunk.oldStart} +${hunk.newStart} @@`
+			});
+			for (const line of hunk.lines) {
+				const row = table.createDiv({ cls: `opencode-diff-line diff-${line.type}` });
+				row.createSpan({ cls: 'opencode-diff-num', text: line.oldLine !== null ? String(line.oldLine) : '' });
+				row.createSpan({ cls: 'opencode-diff-num', text: line.newLine !== null ? String(line.newLine) : '' });
+				const sign = line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' ';
+				row.createSpan({ cls: 'opencode-diff-text', text: `${sign} ${line.text}` });
+			}
+		}
+	}
+
+	private async readFile(filePath: string): Promise<string | null> {
+		const adapter = this.app.vault.adapter;
+		if (!await adapter.exists(filePath)) {
+			return null;
+		}
+		return adapter.read(filePath);
+	}
+}
@@ -0,0 +1,236 @@
+import { Editor, EditorPosition, MarkdownView, Notice } from 'obsidian';
+import type OpenCodePlugin from './main';
+import { EditorPreview } from './EditorPreview';
+import { InstructionModal } from './InstructionModal';
+
+export type EditorAction = 'explain' | 'rewrite' | 'continue' | 'fix-code';
+
+interface EditorTarget {
+	// Range the accepted reply replaces; empty when it is inserted
+	from: EditorPosition;
+	to: EditorPosition;
+	original: string;
+	prompt: string;
+}
+
+const CONTEXT_BEFORE = 4000;
+const CONTEXT_AFTER = 1500;
+const TITLES: Record<EditorAction, string> = {
+	explain: '💡 Explain',
+	rewrite: '✏️ Rewrite',
+	continue: '➡️ Continue writing',
+	'fix-code': '🛠️ Fix code block'
+};
+
+/**
+ * Editor commands that send the selection and the note around it through a
+ * one-off OpenCode run, and apply the reply once it is accepted.
+ */
+export class EditorAssist {
+	plugin: OpenCodePlugin;
+	private preview: EditorPreview | null = null;
+	private controller: AbortController | null = null;
+
+	constructor(plugin: OpenCodePlugin) {
+		this.plugin = plugin;
+	}
+
+	async run(action: EditorAction, editor: Editor, view: MarkdownView): Promise<void> {
+		const target = await this.getTarget(action, editor, view);
+		if (!target) return;
+
+		this.close();
+		const preview = new EditorPreview(this.plugin.app, TITLES[action], view.file?.path || '', action === 'explain', {
+			onAccept: () => this.accept(editor, target, preview.getText(), action),
+			onRetry: () => this.generate(preview, target.prompt),
+			onReject: () => this.close()
+		});
+		this.preview = preview;
+		preview.open(this.getAnchor(editor, target.to, view), view.contentEl);
+		await this.generate(preview, target.prompt);
+	}
+
+	close(): void {
+		this.controller?.abort();
+		this.controller = null;
+		this.preview?.close();
+		this.preview = null;
+	}
+
+	private async getTarget(action: EditorAction, editor: Editor, view: MarkdownView): Promise<EditorTarget | null> {
+		const selection = editor.getSelection();
+		const from = editor.getCursor('from');
+		const to = editor.getCursor('to');
+
+		switch (action) {
+			case 'explain': {
+				if (!selection) {
+					new Notice('Select the text to explain');
+					return null;
+				}
+				// The explanation goes below the selected lines
+				const end = { line: to.line, ch: editor.getLine(to.line).length };
+				return {
+					from: end,
+					to: end,
+					original: '',
+					prompt: 'Explain the selected text. Be concise and use Markdown.\n\n' + this.getContext(editor, view, from, to)
+				};
+			}
+			case 'rewrite': {
+				if (!selection) {
+					new Notice('Select the text to rewrite');
+					return null;
+				}
+				const instructions = await new InstructionModal(this.plugin.app, 'Rewrite selection', 'e.g. make it shorter and more formal').prompt();
+				if (!instructions) return null;
+				return {
+					from,
+					to,
+					original: selection,
+					prompt: `Rewrite the selected text as follows: ${instructions}\n` +
+						'Reply with the rewritten text only, without quotes, code fences or commentary.\n\n' +
+						this.getContext(editor, view, from, to)
+				};
+			}
+			case 'continue': {
+				const cursor = editor.getCursor('head');
+				return {
+					from: cursor,
+					to: cursor,
+					original: '',
+					prompt: 'Continue writing the note from the cursor position. Match its language, tone and formatting. ' +
+						'Reply with the new text only.\n\n' + this.getContext(editor, view, cursor, cursor)
+				};
+			}
+			case 'fix-code': {
+				const block = selection ? { from, to, language: '' } : this.findCodeBlock(editor, from.line);
+				if (!block) {
+					new Notice('Place the cursor in a code block or select code to fix');
+					return null;
+				}
+				const code = editor.getRange(block.from, block.to);
+				return {
+					from: block.from,
+					to: block.to,
+					original: code,
+					prompt: `Fix the bugs in the ${block.language ? `${block.language} ` : ''}code selected below. ` +
+						'Reply with the corrected code only, without code fences or commentary.\n\n' +
+						this.getContext(editor, view, block.from, block.to)
+				};
+			}
+		}
+	}
+
+	/**
+	 * The note around the target, with the selection marked, so the model
+	 * sees the surrounding context.
+	 */
+	private getContext(editor: Editor, view: MarkdownView, from: EditorPosition, to: EditorPosition): string {
+		const text = editor.getValue();
+		const start = editor.posToOffset(from);
+		const end = editor.posToOffset(to);
+		const before = text.substring(Math.max(0, start - CONTEXT_BEFORE), start);
+		const after = text.substring(end, end + CONTEXT_AFTER);
+		const middle = start === end ? '<cursor/>' : `<selection>${text.substring(start, end)}</selection>`;
+
+		return `Note: ${view.file?.path || 'untitled'}\n<note>\n${before}${middle}${after}\n</note>\n\n` +
+			'Only reply with text; do not modify any files.';
+	}
+
+	/**
+	 * Content lines of the fenced code block around `line`, excluding the
+	 * fences themselves.
+	 */
+	private findCodeBlock(editor: Editor, line: number): { from: EditorPosition; to: EditorPosition; language: string } | null {
+		let open = -1;
+		for (let i = 0; i < line; i++) {
+			if (/^\s*(```|~~~)/.test(editor.getLine(i))) {
+				open = open === -1 ? i : -1;
+			}
+		}
+		// A fence on the cursor line opens a block unless one is already open
+		if (open === -1 && /^\s*(```|~~~)/.test(editor.getLine(line))) {
+			open = line;
+		}
+		if (open === -1) return null;
+
+		let close = -1;
+		for (let i = open + 1; i < editor.lineCount(); i++) {
+			if (/^\s*(```|~~~)\s*$/.test(editor.getLine(i))) {
+				close = i;
+				break;
+			}
+		}
+		if (close === -1 || close === open + 1 || line > close) return null;
+
+		return {
+			from: { line: open + 1, ch: 0 },
+			to: { line: close - 1, ch: editor.getLine(close - 1).length },
+			language: editor.getLine(open).replace(/^\s*(```|~~~)/, '').trim()
+		};
+	}
+
+	private async generate(preview: EditorPreview, prompt: string): Promise<void> {
+		this.controller?.abort();
+		const controller = new AbortController();
+		this.controller = controller;
+		preview.setStreaming();
+
+		if (!this.plugin.checkBudget(message => preview.setError(message))) return;
+
+		try {
+			await this.plugin.processManager?.complete(prompt, (text) => preview.setText(text), controller.signal);
+			if (controller.signal.aborted) return;
+			await preview.setDone();
+		} catch (error) {
+			if (controller.signal.aborted) return;
+			preview.setError(error instanceof Error ? error.message : String(error));
+		}
+	}
+
+	/**
+	 * Applies the reply as one editor transaction, so a single undo reverts it.
+	 */
+	private accept(editor: Editor, target: EditorTarget, reply: string, action: EditorAction): void {
+		if (editor.getRange(target.from, target.to) !== target.original) {
+			new Notice('The note changed while the reply was generated. Run the command again to use the new text.');
+			return;
+		}
+
+		let text = action === 'explain' ? reply.trim() : stripCodeFence(reply);
+		if (action === 'continue') {
+			// Keep the leading space or newline that joins it to the text before
+			text = reply.replace(/\s+$/, '');
+		} else if (action === 'explain') {
+			text = `\n\n> [!info] Explanation\n${text.split('\n').map(line => `> ${line}`).join('\n')}`;
+		}
+
+		const lines = text.split('\n');
+		const end = lines.length === 1
+			? { line: target.from.line, ch: target.from.ch + text.length }
+			: { line: target.from.line + lines.length - 1, ch: lines[lines.length - 1].length };
+
+		editor.transaction({
+			changes: [{ from: target.from, to: target.to, text }],
+			selection: { from: end }
+		});
+		editor.focus();
+		this.close();
+	}
+
+	private getAnchor(editor: Editor, pos: EditorPosition, view: MarkdownView): { left: number; bottom: number } {
+		// CodeMirror 6 instance behind the editor; not part of the public API
+		const coords = (editor as any).cm?.coordsAtPos?.(editor.posToOffset(pos));
+		if (coords) {
+			return { left: coords.left, bottom: coords.bottom };
+		}
+		const rect = view.contentEl.getBoundingClientRect();
+		return { left: rect.left + 24, bottom: rect.top + 48 };
+	}
+}
+
+function stripCodeFence(text: string): string {
+	const match = text.trim().match(/^(```|~~~)[\w+-]*\n([\s\S]*?)\n\1\s*$/);
+	return match ? match[2] : text.trim();
+}
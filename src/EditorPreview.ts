@@ -0,0 +1,109 @@
+import { App, Component, MarkdownRenderer } from 'obsidian';
+
+export interface EditorPreviewActions {
+	onAccept: () => void;
+	onRetry: () => void;
+	onReject: () => void;
+}
+
+const WIDTH = 420;
+
+/**
+ * Floating preview next to the cursor that shows an editor command's reply
+ * while it streams in.
+ */
+export class EditorPreview extends Component {
+	private app: App;
+	private title: string;
+	private sourcePath: string;
+	private renderMarkdown: boolean;
+	private actions: EditorPreviewActions;
+	private containerEl: HTMLElement;
+	private statusEl: HTMLElement;
+	private bodyEl: HTMLElement;
+	private acceptBtn: HTMLButtonElement;
+	private text: string = '';
+
+	constructor(app: App, title: string, sourcePath: string, renderMarkdown: boolean, actions: EditorPreviewActions) {
+		super();
+		this.app = app;
+		this.title = title;
+		this.sourcePath = sourcePath;
+		this.renderMarkdown = renderMarkdown;
+		this.actions = actions;
+	}
+
+	/**
+	 * Shows the preview at `anchor`. Escape dismisses it while focus is in
+	 * the preview or in `scopeEl`, the editor it belongs to.
+	 */
+	open(anchor: { left: number; bottom: number }, scopeEl: HTMLElement): void {
+		this.containerEl = document.body.createDiv({ cls: 'opencode-editor-preview', attr: { tabindex: '-1' } });
+		this.containerEl.style.width = `${WIDTH}px`;
+		this.containerEl.style.left = `${Math.max(8, Math.min(anchor.left, window.innerWidth - WIDTH - 8))}px`;
+		this.containerEl.style.top = `${Math.min(anchor.bottom + 6, window.innerHeight - 240)}px`;
+
+		const header = this.containerEl.createDiv({ cls: 'opencode-editor-preview-header' });
+		header.createSpan({ text: this.title, cls: 'opencode-editor-preview-title' });
+		this.statusEl = header.createSpan({ cls: 'opencode-editor-preview-status' });
+
+		this.bodyEl = this.containerEl.createDiv({ cls: 'opencode-editor-preview-body' });
+
+		const footer = this.containerEl.createDiv({ cls: 'opencode-editor-preview-actions' });
+		this.acceptBtn = footer.createEl('button', { text: 'Accept', cls: 'mod-cta' });
+		this.acceptBtn.addEventListener('click', () => this.actions.onAccept());
+		footer.createEl('button', { text: 'Retry' }).addEventListener('click', () => this.actions.onRetry());
+		footer.createEl('button', { text: 'Reject' }).addEventListener('click', () => this.actions.onReject());
+
+		const onKeydown = (e: KeyboardEvent) => {
+			if (e.key === 'Escape') {
+				e.preventDefault();
+				this.actions.onReject();
+			}
+		};
+		this.registerDomEvent(this.containerEl, 'keydown', onKeydown);
+		this.registerDomEvent(scopeEl, 'keydown', onKeydown);
+		this.load();
+		this.setStreaming();
+	}
+
+	setStreaming(): void {
+		this.text = '';
+		this.bodyEl.empty();
+		this.bodyEl.removeClass('is-error', 'is-rendered');
+		this.statusEl.setText('⏳ Generating...');
+		this.acceptBtn.disabled = true;
+	}
+
+	getText(): string {
+		return this.text;
+	}
+
+	setText(text: string): void {
+		this.text = text;
+		this.bodyEl.setText(text);
+		this.bodyEl.scrollTop = this.bodyEl.scrollHeight;
+	}
+
+	async setDone(): Promise<void> {
+		this.statusEl.setText('');
+		this.acceptBtn.disabled = !this.text.trim();
+		if (this.renderMarkdown && this.text) {
+			this.bodyEl.empty();
+			this.bodyEl.addClass('is-rendered');
+			await MarkdownRenderer.render(this.app, this.text, this.bodyEl, this.sourcePath, this);
+		}
+	}
+
+	setError(message: string): void {
+		this.statusEl.setText('');
+		this.bodyEl.setText(`❌ ${message}`);
+		this.bodyEl.addClass('is-error');
+		this.acceptBtn.disabled = true;
+	}
+
+	close(): void {
+		this.unload();
+		this.containerEl?.remove();
+	}
+}
@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Platform } from 'obsidian';
+import type OpenCodePlugin from './main';
+import { FileAttachment } from './types';
+
+const MIME_TYPES: Record<string, string> = {
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	gif: 'image/gif',
+	webp: 'image/webp',
+	bmp: 'image/bmp',
+	svg: 'image/svg+xml',
+	pdf: 'application/pdf',
+	md: 'text/markdown',
+	txt: 'text/plain',
+	json: 'application/json',
+	csv: 'text/csv'
+};
+
+export function createFileAttachment(filePath: string): FileAttachment {
+	const extension = path.extname(filePath).substring(1).toLowerCase();
+	return {
+		path: filePath,
+		name: path.basename(filePath),
+		mime: MIME_TYPES[extension] || 'text/plain'
+	};
+}
+
+export function isImageAttachment(attachment: FileAttachment): boolean {
+	return attachment.mime.startsWith('image/');
+}
+
+export function getAttachmentResourceUrl(attachment: FileAttachment): string {
+	return Platform.resourcePathPrefix + attachment.path.replace(/\\/g, '/');
+}
+
+/**
+ * Path of a file dropped from outside Obsidian. Newer Electron versions
+ * only expose it through webUtils.
+ */
+export function getDroppedFilePath(file: File): string | null {
+	const legacyPath = (file as File & { path?: string }).path;
+	if (legacyPath) {
+		return legacyPath;
+	}
+	try {
+		const { webUtils } = require('electron');
+		return webUtils?.getPathForFile(file) || null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Writes pasted or path-less dropped content to the plugin's attachment
+ * folder so it can be passed to OpenCode and shown again in history.
+ */
+export async function saveFileAttachment(plugin: OpenCodePlugin, file: File): Promise<FileAttachment> {
+	const basePath = (plugin.app.vault.adapter as any).basePath || '';
+	const folder = path.join(basePath, plugin.app.vault.configDir, 'plugins', plugin.manifest.id, 'attachments');
+	await fs.promises.mkdir(folder, { recursive: true });
+
+	const extension = file.name.includes('.')
+		? file.name.substring(file.name.lastIndexOf('.') + 1)
+		: (file.type.split('/')[1] || 'bin').replace('jpeg', 'jpg').replace('svg+xml', 'svg');
+	const baseName = file.name && file.name.includes('.')
+		? file.name.substring(0, file.name.lastIndexOf('.'))
+		: 'pasted';
+	const filePath = path.join(folder, `${baseName}-${Date.now()}.${extension}`);
+
+	await fs.promises.writeFile(filePath, Buffer.from(await file.arrayBuffer()));
+	const attachment = createFileAttachment(filePath);
+	return file.type ? { ...attachment, mime: file.type } : attachment;
+}
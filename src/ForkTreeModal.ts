@@ -0,0 +1,59 @@
+import { App, Modal, moment } from 'obsidian';
+import type OpenCodePlugin from './main';
+
+export class ForkTreeModal extends Modal {
+	plugin: OpenCodePlugin;
+	private conversationId: string;
+	private onSelect: (id: string) => void;
+
+	constructor(app: App, plugin: OpenCodePlugin, conversationId: string, onSelect: (id: string) => void) {
+		super(app);
+		this.plugin = plugin;
+		this.conversationId = conversationId;
+		this.onSelect = onSelect;
+	}
+
+	onOpen(): void {
+		this.titleEl.setText('Conversation Forks');
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const family = this.plugin.conversationStore.getForkFamily(this.conversationId);
+		if (family.length <= 1) {
+			contentEl.createEl('p', {
+				text: 'This conversation has no forks yet. Use ⑂ on a message to branch from it.',
+				cls: 'setting-item-description'
+			});
+			return;
+		}
+
+		const depths = new Map<string, number>();
+		const treeEl = contentEl.createDiv({ cls: 'opencode-fork-tree' });
+
+		for (const node of family) {
+			const depth = node.parentId ? (depths.get(node.parentId) ?? -1) + 1 : 0;
+			depths.set(node.id, depth);
+
+			const itemEl = treeEl.createDiv({ cls: 'opencode-fork-tree-item' });
+			itemEl.style.paddingLeft = `${depth * 20 + 8}px`;
+			if (node.id === this.conversationId) {
+				itemEl.addClass('is-active');
+			}
+
+			itemEl.createSpan({ text: `${depth > 0 ? '└ ' : ''}${node.archived ? '📦 ' : ''}${node.title}`, cls: 'opencode-fork-tree-title' });
+			itemEl.createSpan({
+				text: `${node.messageCount} messages · ${moment(node.updatedAt).format('YYYY-MM-DD HH:mm')}`,
+				cls: 'opencode-fork-tree-meta'
+			});
+
+			itemEl.addEventListener('click', () => {
+				this.close();
+				this.onSelect(node.id);
+			});
+		}
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
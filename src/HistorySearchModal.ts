@@ -0,0 +1,139 @@
+import { App, Modal, Setting, debounce, moment } from 'obsidian';
+import type OpenCodePlugin from './main';
+import { ConversationSearchIndex, SearchFilters, SearchResult } from './ConversationSearch';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export class HistorySearchModal extends Modal {
+	plugin: OpenCodePlugin;
+	private index: ConversationSearchIndex;
+	private query: string = '';
+	private filters: SearchFilters = {};
+	private resultsEl: HTMLElement;
+
+	constructor(app: App, plugin: OpenCodePlugin, initialQuery: string = '') {
+		super(app);
+		this.plugin = plugin;
+		this.index = new ConversationSearchIndex(plugin.conversationStore);
+		this.query = initialQuery;
+	}
+
+	async onOpen(): Promise<void> {
+		this.titleEl.setText('Search Conversations');
+		this.modalEl.addClass('opencode-search-modal');
+		this.contentEl.createEl('p', { text: 'Indexing conversations...', cls: 'setting-item-description' });
+
+		await this.index.build();
+		this.render();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const runSearch = debounce(() => this.renderResults(), 150, true);
+
+		const queryInput = contentEl.createEl('input', {
+			cls: 'opencode-search-input',
+			attr: { type: 'text', placeholder: 'Search messages, tool names and inputs...' }
+		});
+		queryInput.value = this.query;
+		queryInput.addEventListener('input', () => {
+			this.query = queryInput.value;
+			runSearch();
+		});
+
+		const filtersEl = contentEl.createDiv({ cls: 'opencode-search-filters' });
+
+		new Setting(filtersEl)
+			.setName('Model')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Any model');
+				this.index.getModels().forEach(model => dropdown.addOption(model, model));
+				dropdown.setValue(this.filters.model || '');
+				dropdown.onChange(value => {
+					this.filters.model = value || undefined;
+					this.renderResults();
+				});
+			});
+
+		new Setting(filtersEl)
+			.setName('Conversation')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'All conversations');
+				this.index.getConversations().forEach(({ id, title }) => dropdown.addOption(id, title));
+				dropdown.setValue(this.filters.conversationId || '');
+				dropdown.onChange(value => {
+					this.filters.conversationId = value || undefined;
+					this.renderResults();
+				});
+			});
+
+		new Setting(filtersEl)
+			.setName('Date range')
+			.addText(text => {
+				text.inputEl.type = 'date';
+				text.onChange(value => {
+					this.filters.from = value ? moment(value, 'YYYY-MM-DD').valueOf() : undefined;
+					this.renderResults();
+				});
+			})
+			.addText(text => {
+				text.inputEl.type = 'date';
+				text.onChange(value => {
+					// Include the whole end day
+					this.filters.to = value ? moment(value, 'YYYY-MM-DD').valueOf() + DAY - 1 : undefined;
+					this.renderResults();
+				});
+			});
+
+		this.resultsEl = contentEl.createDiv({ cls: 'opencode-search-results' });
+		this.renderResults();
+		queryInput.focus();
+	}
+
+	private renderResults(): void {
+		this.resultsEl.empty();
+
+		if (!this.query.trim()) {
+			this.resultsEl.createEl('p', { text: 'Type to search your conversation history.', cls: 'setting-item-description' });
+			return;
+		}
+
+		const results = this.index.search(this.query, this.filters);
+		if (results.length === 0) {
+			this.resultsEl.createEl('p', { text: 'No matching messages.', cls: 'setting-item-description' });
+			return;
+		}
+
+		results.forEach(result => this.renderResult(result));
+	}
+
+	private renderResult(result: SearchResult): void {
+		const itemEl = this.resultsEl.createDiv({ cls: 'opencode-search-result' });
+
+		const metaEl = itemEl.createDiv({ cls: 'opencode-search-result-meta' });
+		metaEl.createSpan({ text: result.conversationTitle, cls: 'opencode-search-result-title' });
+		const role = result.role === 'tool' ? `🔧 ${result.toolName || 'tool'}` : result.role;
+		metaEl.createSpan({ text: `${role} · ${moment(result.timestamp).format('YYYY-MM-DD HH:mm')}` });
+
+		const snippetEl = itemEl.createDiv({ cls: 'opencode-search-result-snippet' });
+		let cursor = 0;
+		for (const [start, end] of result.highlights) {
+			if (start < cursor) continue;
+			snippetEl.appendText(result.snippet.substring(cursor, start));
+			snippetEl.createEl('mark', { text: result.snippet.substring(start, end) });
+			cursor = end;
+		}
+		snippetEl.appendText(result.snippet.substring(cursor));
+
+		itemEl.addEventListener('click', async () => {
+			this.close();
+			await this.plugin.revealMessage(result.conversationId, result.messageId);
+		});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
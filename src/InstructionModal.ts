@@ -0,0 +1,73 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Asks for a single line of text, e.g. how to rewrite a selection.
+ */
+export class InstructionModal extends Modal {
+	private title: string;
+	private placeholder: string;
+	private value: string;
+	private submitText: string;
+	private resolve: (value: string | null) => void = () => {};
+	private submitted: boolean = false;
+
+	constructor(app: App, title: string, placeholder: string, value: string = '', submitText: string = 'Run') {
+		super(app);
+		this.title = title;
+		this.placeholder = placeholder;
+		this.value = value;
+		this.submitText = submitText;
+	}
+
+	prompt(): Promise<string | null> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.titleEl.setText(this.title);
+
+		new Setting(contentEl)
+			.setClass('opencode-instruction-setting')
+			.addText(text => {
+				text.setPlaceholder(this.placeholder)
+					.setValue(this.value)
+					.onChange(value => {
+						this.value = value;
+					});
+				text.inputEl.addEventListener('keydown', (e) => {
+					if (e.key === 'Enter') {
+						e.preventDefault();
+						this.submit();
+					}
+				});
+				setTimeout(() => text.inputEl.select(), 0);
+			});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText(this.submitText)
+				.setCta()
+				.onClick(() => this.submit()));
+	}
+
+	private submit(): void {
+		if (!this.value.trim()) return;
+		this.submitted = true;
+		this.resolve(this.value.trim());
+		this.close();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		if (!this.submitted) {
+			this.resolve(null);
+		}
+	}
+}
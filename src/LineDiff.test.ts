@@ -0,0 +1,17 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { undoReplacement } from './LineDiff';
+
+test('undoReplacement restores the original text', () => {
+	assert.equal(undoReplacement('a NEW b', 'OLD', 'NEW'), 'a OLD b');
+});
+
+test('undoReplacement writes back dollar signs literally', () => {
+	assert.equal(undoReplacement('echo NEW', 'kill $$ && echo $& $` $\'', 'NEW'), 'echo kill $$ && echo $& $` $\'');
+});
+
+test('undoReplacement gives up unless the new text occurs once', () => {
+	assert.equal(undoReplacement('NEW NEW', 'OLD', 'NEW'), null);
+	assert.equal(undoReplacement('nothing here', 'OLD', 'NEW'), null);
+	assert.equal(undoReplacement('text', 'OLD', ''), null);
+});
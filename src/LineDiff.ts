@@ -0,0 +1,142 @@
+export interface DiffLine {
+	type: 'context' | 'added' | 'removed';
+	text: string;
+	oldLine: number | null;
+	newLine: number | null;
+}
+
+export interface DiffHunk {
+	oldStart: number;
+	newStart: number;
+	lines: DiffLine[];
+}
+
+// Above this many cells the LCS table gets too large; fall back to a block replace
+const MAX_LCS_CELLS = 4000000;
+
+export function diffLines(before: string, after: string): DiffLine[] {
+	const a = before === '' ? [] : before.split('\n');
+	const b = after === '' ? [] : after.split('\n');
+
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+		prefix++;
+	}
+
+	let suffix = 0;
+	while (
+		suffix < a.length - prefix &&
+		suffix < b.length - prefix &&
+		a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	const result: DiffLine[] = [];
+	for (let i = 0; i < prefix; i++) {
+		result.push({ type: 'context', text: a[i], oldLine: i + 1, newLine: i + 1 });
+	}
+
+	const midA = a.slice(prefix, a.length - suffix);
+	const midB = b.slice(prefix, b.length - suffix);
+	result.push(...diffMiddle(midA, midB, prefix));
+
+	for (let i = suffix; i > 0; i--) {
+		const oldIndex = a.length - i;
+		const newIndex = b.length - i;
+		result.push({ type: 'context', text: a[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 });
+	}
+
+	return result;
+}
+
+function diffMiddle(a: string[], b: string[], offset: number): DiffLine[] {
+	const result: DiffLine[] = [];
+
+	if (a.length * b.length > MAX_LCS_CELLS) {
+		a.forEach((text, i) => result.push({ type: 'removed', text, oldLine: offset + i + 1, newLine: null }));
+		b.forEach((text, i) => result.push({ type: 'added', text, oldLine: null, newLine: offset + i + 1 }));
+		return result;
+	}
+
+	// lcs[i][j] = length of the LCS of a[i..] and b[j..]
+	const lcs: number[][] = [];
+	for (let i = 0; i <= a.length; i++) {
+		lcs.push(new Array(b.length + 1).fill(0));
+	}
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lcs[i][j] = a[i] === b[j]
+				? lcs[i + 1][j + 1] + 1
+				: Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+		}
+	}
+
+	let i = 0;
+	let j = 0;
+	while (i < a.length || j < b.length) {
+		if (i < a.length && j < b.length && a[i] === b[j]) {
+			result.push({ type: 'context', text: a[i], oldLine: offset + i + 1, newLine: offset + j + 1 });
+			i++;
+			j++;
+		} else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+			result.push({ type: 'removed', text: a[i], oldLine: offset + i + 1, newLine: null });
+			i++;
+		} else {
+			result.push({ type: 'added', text: b[j], oldLine: null, newLine: offset + j + 1 });
+			j++;
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Groups a line diff into hunks, keeping `context` unchanged lines
+ * around each change.
+ */
+export function toHunks(lines: DiffLine[], context: number = 3): DiffHunk[] {
+	const hunks: DiffHunk[] = [];
+	let current: DiffHunk | null = null;
+	let lastChange = -Infinity;
+
+	lines.forEach((line, index) => {
+		if (line.type === 'context') return;
+
+		const start = Math.max(index - context, 0);
+		if (!current || start > lastChange + context + 1) {
+			current = {
+				oldStart: lines[start].oldLine ?? 0,
+				newStart: lines[start].newLine ?? 0,
+				lines: lines.slice(start, index + 1)
+			};
+			hunks.push(current);
+		} else {
+			current.lines.push(...lines.slice(lastChange + 1, index + 1));
+		}
+		lastChange = index;
+	});
+
+	// Append trailing context to each hunk
+	for (const hunk of hunks) {
+		const last = hunk.lines[hunk.lines.length - 1];
+		let index = lines.indexOf(last) + 1;
+		let added = 0;
+		while (index < lines.length && lines[index].type === 'context' && added < context) {
+			hunk.lines.push(lines[index]);
+			index++;
+			added++;
+		}
+	}
+
+	return hunks;
+}
+
+/**
+ * Undoes a single `edit` replacement: swaps `newString` back for
+ * `oldString` when the new text occurs exactly once in `current`.
+ */
+export function undoReplacement(current: string, oldString: string, newString: string): string | null {
+	if (!newString || current.split(newString).length !== 2) return null;
+	return current.replace(newString, () => oldString);
+}
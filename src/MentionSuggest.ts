@@ -0,0 +1,210 @@
+import { App, TFile, TFolder, prepareFuzzySearch } from 'obsidian';
+import { ContextAttachment } from './types';
+import { getAttachmentLabel } from './ContextAttachments';
+
+interface MentionSuggestion {
+	attachment: ContextAttachment;
+	// Text that replaces the query when drilling into a note with Tab
+	drillDown?: string;
+	score: number;
+}
+
+const MAX_SUGGESTIONS = 20;
+// `@query` without spaces, or `@path#section` / `@path^block` where both parts may contain spaces
+const MENTION_PATTERN = /(?:^|\s)@([^\s@#^]*|[^@\n]+[#^][^@\n#^]*)$/;
+
+/**
+ * `@` autocomplete for the chat textarea. Suggests vault files and folders,
+ * and `note#heading` / `note^block` references from the metadata cache.
+ */
+export class MentionSuggest {
+	private app: App;
+	private inputEl: HTMLTextAreaElement;
+	private popupEl: HTMLElement;
+	private onSelect: (attachment: ContextAttachment) => void;
+	private suggestions: MentionSuggestion[] = [];
+	private selected: number = 0;
+	private queryStart: number = -1;
+
+	constructor(app: App, inputEl: HTMLTextAreaElement, containerEl: HTMLElement, onSelect: (attachment: ContextAttachment) => void) {
+		this.app = app;
+		this.inputEl = inputEl;
+		this.onSelect = onSelect;
+		this.popupEl = containerEl.createDiv({ cls: 'opencode-mention-suggest' });
+		this.popupEl.hide();
+
+		this.inputEl.addEventListener('input', () => this.update());
+		this.inputEl.addEventListener('blur', () => {
+			// Let clicks on suggestions land first
+			setTimeout(() => this.close(), 150);
+		});
+	}
+
+	isOpen(): boolean {
+		return this.suggestions.length > 0;
+	}
+
+	/**
+	 * Handles navigation keys while suggestions are shown. Returns true if
+	 * the key was consumed.
+	 */
+	handleKeydown(e: KeyboardEvent): boolean {
+		if (!this.isOpen()) return false;
+
+		switch (e.key) {
+			case 'ArrowDown':
+				this.setSelected((this.selected + 1) % this.suggestions.length);
+				break;
+			case 'ArrowUp':
+				this.setSelected((this.selected - 1 + this.suggestions.length) % this.suggestions.length);
+				break;
+			case 'Enter':
+				this.choose(this.suggestions[this.selected]);
+				break;
+			case 'Tab': {
+				const suggestion = this.suggestions[this.selected];
+				if (suggestion.drillDown) {
+					this.replaceQuery(`@${suggestion.drillDown}`);
+					this.update();
+				} else {
+					this.choose(suggestion);
+				}
+				break;
+			}
+			case 'Escape':
+				this.close();
+				break;
+			default:
+				return false;
+		}
+
+		e.preventDefault();
+		return true;
+	}
+
+	close(): void {
+		this.suggestions = [];
+		this.queryStart = -1;
+		this.popupEl.empty();
+		this.popupEl.hide();
+	}
+
+	private update(): void {
+		const caret = this.inputEl.selectionStart ?? this.inputEl.value.length;
+		const before = this.inputEl.value.substring(0, caret);
+		const match = before.match(MENTION_PATTERN);
+		if (!match) {
+			this.close();
+			return;
+		}
+
+		this.queryStart = caret - match[1].length - 1;
+		this.suggestions = this.getSuggestions(match[1]);
+		this.selected = 0;
+		this.render();
+	}
+
+	private getSuggestions(query: string): MentionSuggestion[] {
+		const sectionMatch = query.match(/^(.+?)([#^])(.*)$/);
+		if (sectionMatch) {
+			return this.getSectionSuggestions(sectionMatch[1], sectionMatch[2], sectionMatch[3]);
+		}
+
+		if (!query) {
+			return this.app.vault.getFiles()
+				.sort((a, b) => b.stat.mtime - a.stat.mtime)
+				.slice(0, MAX_SUGGESTIONS)
+				.map(file => this.toFileSuggestion(file, 0));
+		}
+
+		const entries = this.app.vault.getAllLoadedFiles()
+			.filter(file => file instanceof TFile || (file instanceof TFolder && !file.isRoot()));
+		const search = prepareFuzzySearch(query);
+		const results: MentionSuggestion[] = [];
+		for (const entry of entries) {
+			const match = search(entry.path);
+			if (!match) continue;
+			results.push(entry instanceof TFile
+				? this.toFileSuggestion(entry, match.score)
+				: { attachment: { type: 'folder', path: entry.path }, score: match.score });
+		}
+		return results.sort((a, b) => b.score - a.score).slice(0, MAX_SUGGESTIONS);
+	}
+
+	private toFileSuggestion(file: TFile, score: number): MentionSuggestion {
+		return {
+			attachment: { type: 'file', path: file.path },
+			drillDown: file.extension === 'md' ? `${file.path}#` : undefined,
+			score
+		};
+	}
+
+	private getSectionSuggestions(linkpath: string, marker: string, query: string): MentionSuggestion[] {
+		const file = this.app.vault.getAbstractFileByPath(linkpath) ||
+			this.app.metadataCache.getFirstLinkpathDest(linkpath, '');
+		if (!(file instanceof TFile)) return [];
+
+		const cache = this.app.metadataCache.getFileCache(file);
+		const search = query ? prepareFuzzySearch(query) : null;
+		const results: MentionSuggestion[] = [];
+
+		if (marker === '#') {
+			for (const heading of cache?.headings || []) {
+				const match = search ? search(heading.heading) : { score: 0 };
+				if (match) {
+					results.push({ attachment: { type: 'heading', path: file.path, subpath: heading.heading }, score: match.score });
+				}
+			}
+		} else {
+			for (const id of Object.keys(cache?.blocks || {})) {
+				const match = search ? search(id) : { score: 0 };
+				if (match) {
+					results.push({ attachment: { type: 'block', path: file.path, subpath: id }, score: match.score });
+				}
+			}
+		}
+
+		// Keep document order when nothing has been typed yet
+		return (search ? results.sort((a, b) => b.score - a.score) : results).slice(0, MAX_SUGGESTIONS);
+	}
+
+	private render(): void {
+		this.popupEl.empty();
+		if (this.suggestions.length === 0) {
+			this.popupEl.hide();
+			return;
+		}
+
+		this.suggestions.forEach((suggestion, index) => {
+			const itemEl = this.popupEl.createDiv({ cls: 'opencode-mention-item', text: getAttachmentLabel(suggestion.attachment) });
+			itemEl.toggleClass('is-selected', index === this.selected);
+			itemEl.addEventListener('mousedown', (e) => {
+				e.preventDefault();
+				this.choose(suggestion);
+			});
+		});
+		this.popupEl.show();
+	}
+
+	private setSelected(index: number): void {
+		this.selected = index;
+		Array.from(this.popupEl.children).forEach((el, i) => el.toggleClass('is-selected', i === index));
+		(this.popupEl.children[index] as HTMLElement | undefined)?.scrollIntoView({ block: 'nearest' });
+	}
+
+	private choose(suggestion: MentionSuggestion): void {
+		this.replaceQuery('');
+		this.close();
+		this.onSelect(suggestion.attachment);
+	}
+
+	private replaceQuery(replacement: string): void {
+		if (this.queryStart === -1) return;
+		const value = this.inputEl.value;
+		const caret = this.inputEl.selectionStart ?? value.length;
+		this.inputEl.value = value.substring(0, this.queryStart) + replacement + value.substring(caret);
+		const position = this.queryStart + replacement.length;
+		this.inputEl.setSelectionRange(position, position);
+		this.inputEl.focus();
+	}
+}
@@ -2,13 +2,27 @@ import { spawn, exec, ChildProcess } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs';
 import { EventEmitter } from 'events';
-import { OpenCodeSettings, ProcessState, ToolEvent, StepFinishEvent } from './types';
-import { StreamParser, ParsedEvent, ParsedTextEvent, ParsedToolEvent, ParsedStepEvent, ParsedSessionEvent, ParsedErrorEvent } from './StreamParser';
+import { OpenCodeSettings, ProcessState, ToolEvent, StepFinishEvent, ChatMessage, FileAttachment, PromptOptions } from './types';
+import { StreamParser, ParsedEvent, ParsedTextEvent, ParsedReasoningEvent, ParsedToolEvent, ParsedStepEvent, ParsedSessionEvent, ParsedErrorEvent } from './StreamParser';
+import { ServerClient, ServerModel } from './ServerClient';
+import { buildPromptWithContext } from './ContextAttachments';
 
 const execAsync = promisify(exec);
 const access = fs.promises.access;
 const { constants } = fs;
 
+const SERVER_STARTUP_TIMEOUT = 15000;
+// How long a turn waits for session.idle after the prompt request returned
+const SERVER_IDLE_TIMEOUT = 10000;
+
+function toServerModel(modelArg: string): ServerModel {
+	const slash = modelArg.indexOf('/');
+	return {
+		providerID: modelArg.substring(0, slash),
+		modelID: modelArg.substring(slash + 1)
+	};
+}
+
 export class ProcessManager extends EventEmitter {
 	private process: ChildProcess | null = null;
 	private settings: OpenCodeSettings;
@@ -20,62 +34,86 @@ export class ProcessManager extends EventEmitter {
 		sessionID: null
 	};
 	private parser: StreamParser;
-	private messageQueue: string[] = [];
+	private messageQueue: { prompt: string; files: FileAttachment[]; options: PromptOptions }[] = [];
+	private turnModel: string | null = null;
+	private imageSupport: Map<string, boolean> | null = null;
 	private isProcessingQueue: boolean = false;
+	private serverClient: ServerClient | null = null;
+	private serverProcess: ChildProcess | null = null;
+	private activeModel: string;
+	private aborting: boolean = false;
 
 	constructor(settings: OpenCodeSettings, vaultPath: string) {
 		super();
 		this.settings = settings;
 		this.vaultPath = vaultPath;
+		this.activeModel = this.getModelArg();
 		this.parser = new StreamParser();
 		this.setupParserListeners();
 	}
 
 	private setupParserListeners(): void {
-		this.parser.on('event', (event: ParsedEvent) => {
-			switch (event.type) {
-				case 'text':
-					this.emit('text', (event as ParsedTextEvent).content);
-					break;
-				case 'tool': {
-					const toolEvent = event as ParsedToolEvent;
-					const emitEvent: ToolEvent = {
-						name: toolEvent.toolName,
-						status: toolEvent.status,
-						title: toolEvent.title,
-						input: toolEvent.input,
-						output: toolEvent.output,
-						error: toolEvent.error
-					};
-					this.emit('tool', emitEvent);
-					break;
-				}
-				case 'step_start':
-					this.emit('step-start');
-					break;
-				case 'step_finish': {
-					const stepEvent = event as ParsedStepEvent;
-					const finishEvent: StepFinishEvent = {
-						reason: stepEvent.reason,
-						tokens: stepEvent.tokens,
-						cost: stepEvent.cost
-					};
-					this.emit('step-finish', finishEvent);
-					break;
-				}
-				case 'session':
-					this.state.sessionID = (event as ParsedSessionEvent).sessionID;
-					this.emit('session', this.state.sessionID);
-					break;
-				case 'error':
-					this.emit('parse-error', (event as ParsedErrorEvent).message);
-					break;
+		this.parser.on('event', (event: ParsedEvent) => this.handleParsedEvent(event));
+	}
+
+	private handleParsedEvent(event: ParsedEvent): void {
+		// Output still buffered from an aborted run is dropped
+		if (this.aborting) return;
+
+		switch (event.type) {
+			case 'text':
+				this.emit('text', (event as ParsedTextEvent).content);
+				break;
+			case 'reasoning':
+				this.emit('reasoning', (event as ParsedReasoningEvent).content);
+				break;
+			case 'tool': {
+				const toolEvent = event as ParsedToolEvent;
+				const emitEvent: ToolEvent = {
+					name: toolEvent.toolName,
+					callID: toolEvent.callID,
+					status: toolEvent.status,
+					title: toolEvent.title,
+					input: toolEvent.input,
+					output: toolEvent.output,
+					error: toolEvent.error
+				};
+				this.emit('tool', emitEvent);
+				break;
 			}
-		});
+			case 'step_start':
+				this.emit('step-start');
+				break;
+			case 'step_finish': {
+				const stepEvent = event as ParsedStepEvent;
+				const finishEvent: StepFinishEvent = {
+					reason: stepEvent.reason,
+					tokens: stepEvent.tokens,
+					cost: stepEvent.cost
+				};
+				// Recorded before views react so they see the step's usage
+				this.emit('usage', finishEvent, this.getTurnModel(), false);
+				this.emit('step-finish', finishEvent);
+				break;
+			}
+			case 'session':
+				this.state.sessionID = (event as ParsedSessionEvent).sessionID;
+				this.emit('session', this.state.sessionID);
+				break;
+			case 'error':
+				this.emit('parse-error', (event as ParsedErrorEvent).message);
+				break;
+		}
 	}
 
 	updateSettings(settings: OpenCodeSettings): void {
 		this.settings = settings;
+		// Settings are mutated in place, so compare against the last model we announced
+		const model = this.getModelArg();
+		if (model !== this.activeModel) {
+			this.activeModel = model;
+			this.emit('model-change', model);
+		}
 	}
 
 	getState(): ProcessState {
@@ -196,6 +234,40 @@ export class ProcessManager extends EventEmitter {
 		}
 	}
 
+	/**
+	 * Whether a model accepts image input, from `opencode models --verbose`.
+	 * Returns null when the CLI does not report capabilities for it.
+	 */
+	async supportsImages(model: string): Promise<boolean | null> {
+		if (!this.imageSupport) {
+			this.imageSupport = new Map();
+			try {
+				const path = await this.findOpenCodePath();
+				const { stdout } = await execAsync(`"${path}" models --verbose`, { timeout: 30000, maxBuffer: 16 * 1024 * 1024 });
+				// Each model is printed as a "provider/model" line followed by its JSON metadata
+				const blocks = stdout.split(/^(?=[^\s{}"]+\/\S+\s*$)/m);
+				for (const block of blocks) {
+					const newline = block.indexOf('\n');
+					if (newline === -1) continue;
+					try {
+						const info = JSON.parse(block.substring(newline + 1));
+						const image = info.capabilities?.input?.image ??
+							info.modalities?.input?.includes('image') ??
+							info.attachment;
+						if (typeof image === 'boolean') {
+							this.imageSupport.set(block.substring(0, newline).trim(), image);
+						}
+					} catch {
+						continue;
+					}
+				}
+			} catch {
+				// Older CLIs without --verbose leave the map empty
+			}
+		}
+		return this.imageSupport.get(model) ?? null;
+	}
+
 	async getAuthProviders(): Promise<{ provider: string; type: string }[]> {
 		try {
 			const path = await this.findOpenCodePath();
@@ -264,13 +336,186 @@ export class ProcessManager extends EventEmitter {
 		this.emit('started', this.state);
 	}
 
-	async sendMessage(message: string): Promise<void> {
-		this.messageQueue.push(message);
+	/**
+	 * Queues a prompt. When `history` is given, the prompt starts a fresh
+	 * session and carries that history as a transcript, so the model picks
+	 * up where an earlier conversation left off. `files` are attached to
+	 * the prompt, and `options` override the model and agent for it.
+	 */
+	async sendMessage(message: string, history: ChatMessage[] = [], files: FileAttachment[] = [], options: PromptOptions = {}): Promise<void> {
+		this.messageQueue.push({
+			prompt: history.length > 0 ? this.buildSeededPrompt(message, history) : message,
+			files,
+			options
+		});
 		if (!this.isProcessingQueue) {
 			await this.processQueue();
 		}
 	}
 
+	private buildSeededPrompt(message: string, history: ChatMessage[]): string {
+		return `This session continues an earlier conversation. Its transcript so far:\n\n<conversation>\n${this.formatTranscript(history)}\n</conversation>\n\n${message}`;
+	}
+
+	/**
+	 * Renders history as plain text for seeding a session. Turns before the
+	 * latest compaction are replaced by its summary.
+	 */
+	private formatTranscript(history: ChatMessage[]): string {
+		let start = 0;
+		history.forEach((msg, index) => {
+			if (msg.compaction) start = index;
+		});
+
+		return history.slice(start)
+			.map(msg => {
+				switch (msg.role) {
+					case 'user':
+						return `User: ${buildPromptWithContext(msg.content, msg.context)}`;
+					case 'assistant':
+						return `Assistant: ${msg.content}`;
+					case 'tool':
+						return `[Tool ${msg.toolName || 'call'}: ${msg.toolTitle || msg.content}]`;
+					case 'system':
+						return msg.compaction ? `Summary of earlier turns:\n${msg.compaction}` : '';
+					default:
+						return '';
+				}
+			})
+			.filter(Boolean)
+			.join('\n\n');
+	}
+
+	/**
+	 * Asks the model for a summary of the given turns in a throwaway run
+	 * that does not touch the chat session or emit chat events.
+	 */
+	async summarize(history: ChatMessage[]): Promise<string> {
+		const prompt = 'Summarize the conversation below so it can be continued in a new session. ' +
+			'Keep decisions made, open tasks, file paths, code identifiers and user preferences. ' +
+			`Reply with the summary only.\n\n<conversation>\n${this.formatTranscript(history)}\n</conversation>`;
+
+		const summary = await this.complete(prompt);
+		if (!summary.trim()) {
+			throw new Error('The model returned an empty summary');
+		}
+		return summary.trim();
+	}
+
+	/**
+	 * Runs a single prompt outside the chat session and resolves with the
+	 * reply text. `onText` receives the reply as it streams in; aborting
+	 * `signal` stops the run. Its usage is emitted as a one-off 'usage'.
+	 */
+	async complete(prompt: string, onText?: (text: string) => void, signal?: AbortSignal): Promise<string> {
+		if (this.settings.executionMode === 'server') {
+			return this.completeOnServer(prompt, onText, signal);
+		}
+
+		const opencodePath = await this.findOpenCodePath();
+
+		const env: NodeJS.ProcessEnv = { ...process.env, TERM: 'dumb', NO_COLOR: '1' };
+		if (this.settings.customApiBaseUrl) {
+			env['OPENAI_BASE_URL'] = this.settings.customApiBaseUrl;
+		}
+
+		return new Promise((resolve, reject) => {
+			const parser = new StreamParser();
+			let reply = '';
+			const model = this.getModelArg();
+			parser.on('event', (event: ParsedEvent) => {
+				if (event.type === 'text') {
+					reply += (event as ParsedTextEvent).content;
+					onText?.(reply);
+				} else if (event.type === 'step_finish') {
+					const { reason, tokens, cost } = event as ParsedStepEvent;
+					this.emit('usage', { reason, tokens, cost } as StepFinishEvent, model, true);
+				}
+			});
+
+			const child = spawn(opencodePath, ['run', '--format', 'json', '-m', model, prompt], {
+				cwd: this.vaultPath,
+				env,
+				signal,
+				stdio: ['ignore', 'pipe', 'pipe']
+			});
+			let stderr = '';
+			child.stdout?.on('data', (data: Buffer) => parser.feed(data.toString()));
+			child.stderr?.on('data', (data: Buffer) => {
+				stderr += data.toString();
+			});
+			child.on('error', reject);
+			child.on('exit', (code) => {
+				parser.flush();
+				if (signal?.aborted) {
+					reject(new Error('Run aborted'));
+				} else if (code !== 0 && code !== null) {
+					reject(new Error(stderr.trim() || `Run exited with code ${code}`));
+				} else {
+					resolve(reply);
+				}
+			});
+		});
+	}
+
+	/**
+	 * complete() in server mode: the prompt runs in a throwaway session on
+	 * the running server instead of a new process.
+	 */
+	private async completeOnServer(prompt: string, onText?: (text: string) => void, signal?: AbortSignal): Promise<string> {
+		const client = await this.ensureServer();
+		if (signal?.aborted) {
+			throw new Error('Run aborted');
+		}
+
+		const sessionID = await client.createSession();
+		const model = this.getModelArg();
+		let reply = '';
+		let error: string | null = null;
+		const onEvent = (event: ParsedEvent, eventSessionID: string) => {
+			if (eventSessionID !== sessionID) return;
+			if (event.type === 'text') {
+				reply += (event as ParsedTextEvent).content;
+				onText?.(reply);
+			} else if (event.type === 'step_finish') {
+				const { reason, tokens, cost } = event as ParsedStepEvent;
+				this.emit('usage', { reason, tokens, cost } as StepFinishEvent, model, true);
+			} else if (event.type === 'error') {
+				error = (event as ParsedErrorEvent).message;
+			}
+		};
+
+		const { idle, cancel } = client.waitForIdle(sessionID);
+		const onAbort = () => {
+			cancel();
+			client.abort(sessionID).catch(() => {});
+		};
+		let idleTimeout: ReturnType<typeof setTimeout> | null = null;
+		client.on('event', onEvent);
+		signal?.addEventListener('abort', onAbort);
+		try {
+			await client.prompt(sessionID, toServerModel(model), prompt);
+			idleTimeout = setTimeout(cancel, SERVER_IDLE_TIMEOUT);
+			await idle;
+		} finally {
+			if (idleTimeout) {
+				clearTimeout(idleTimeout);
+			}
+			cancel();
+			client.off('event', onEvent);
+			signal?.removeEventListener('abort', onAbort);
+			client.deleteSession(sessionID).catch(() => {});
+		}
+
+		if (signal?.aborted) {
+			throw new Error('Run aborted');
+		}
+		if (error) {
+			throw new Error(error);
+		}
+		return reply;
+	}
+
 	private async processQueue(): Promise<void> {
 		if (this.messageQueue.length === 0) {
 			this.isProcessingQueue = false;
@@ -278,23 +523,44 @@ export class ProcessManager extends EventEmitter {
 		}
 
 		this.isProcessingQueue = true;
-		const message = this.messageQueue.shift()!;
+		this.aborting = false;
+		const { prompt, files, options } = this.messageQueue.shift()!;
 
 		try {
-			await this.executeMessage(message);
+			await this.executeMessage(prompt, files, options);
 		} catch (error) {
-			this.emit('error', error instanceof Error ? error.message : String(error));
+			if (!this.aborting) {
+				this.emit('error', error instanceof Error ? error.message : String(error));
+			}
 		}
+		this.turnModel = null;
 
 		await this.processQueue();
 	}
 
-	private async executeMessage(message: string): Promise<void> {
-		const opencodePath = await this.findOpenCodePath();
-
-		const modelArg = this.settings.model.includes('/')
+	getModelArg(): string {
+		return this.settings.model.includes('/')
 			? this.settings.model
 			: `${this.settings.provider}/${this.settings.model}`;
+	}
+
+	/**
+	 * Model of the turn in progress, which differs from the configured one
+	 * when the prompt pinned its own.
+	 */
+	getTurnModel(): string {
+		return this.turnModel || this.getModelArg();
+	}
+
+	private async executeMessage(message: string, files: FileAttachment[] = [], options: PromptOptions = {}): Promise<void> {
+		this.turnModel = options.model || null;
+		if (this.settings.executionMode === 'server') {
+			return this.executeServerMessage(message, files, options);
+		}
+
+		const opencodePath = await this.findOpenCodePath();
+		const modelArg = this.getTurnModel();
+		const agent = options.agent || this.settings.agent;
 
 		const args = [
 			'run',
@@ -303,6 +569,14 @@ export class ProcessManager extends EventEmitter {
 			message
 		];
 
+		for (const file of files) {
+			args.push('--file', file.path);
+		}
+
+		if (agent) {
+			args.push('--agent', agent);
+		}
+
 		if (this.state.sessionID) {
 			args.push('-s', this.state.sessionID);
 		}
@@ -369,27 +643,176 @@ export class ProcessManager extends EventEmitter {
 		});
 	}
 
-	async stop(): Promise<void> {
-		if (!this.process || !this.state.isRunning) {
-			return;
+	private async executeServerMessage(message: string, files: FileAttachment[], options: PromptOptions): Promise<void> {
+		const client = await this.ensureServer();
+
+		if (!this.state.sessionID) {
+			this.state.sessionID = await client.createSession();
+			this.emit('session', this.state.sessionID);
 		}
 
-		return new Promise((resolve) => {
-			this.process?.on('exit', () => {
-				resolve();
+		const model = toServerModel(this.getTurnModel());
+
+		this.state.isRunning = true;
+		this.state.pid = this.serverProcess?.pid || null;
+		this.state.lastError = null;
+		this.emit('running', this.state);
+
+		// Listen before prompting; the session can go idle before the response arrives
+		const { idle, cancel } = client.waitForIdle(this.state.sessionID);
+		try {
+			await client.prompt(this.state.sessionID, model, message, files, options.agent || this.settings.agent || undefined);
+			// Text and step-finish events can trail the response, so the turn
+			// ends when the session goes idle
+			const timeout = setTimeout(cancel, SERVER_IDLE_TIMEOUT);
+			await idle;
+			clearTimeout(timeout);
+		} catch (error) {
+			cancel();
+			this.state.lastError = error instanceof Error ? error.message : String(error);
+			throw error;
+		} finally {
+			this.state.isRunning = false;
+			this.state.pid = null;
+			// Mirror the spawn lifecycle so views finalize the turn the same way
+			this.emit('exit', { code: 0, signal: null });
+		}
+	}
+
+	/**
+	 * Attaches to an `opencode serve` instance on the configured port,
+	 * starting one in the vault root if nothing is listening yet.
+	 */
+	private async ensureServer(): Promise<ServerClient> {
+		if (this.serverClient && this.serverClient.port !== this.settings.serverPort) {
+			this.disposeServer();
+		}
+
+		if (!this.serverClient) {
+			this.serverClient = new ServerClient(this.settings.serverPort);
+			this.serverClient.on('event', (event: ParsedEvent, sessionID: string) => {
+				if (sessionID === this.state.sessionID) {
+					this.handleParsedEvent(event);
+				}
+			});
+		}
+
+		const client = this.serverClient;
+		if (!await client.isReachable()) {
+			await this.startServer(client);
+		}
+
+		await client.connectEvents();
+		return client;
+	}
+
+	private async startServer(client: ServerClient): Promise<void> {
+		if (!this.serverProcess) {
+			const opencodePath = await this.findOpenCodePath();
+			const env: NodeJS.ProcessEnv = { ...process.env, TERM: 'dumb', NO_COLOR: '1' };
+			if (this.settings.customApiBaseUrl) {
+				env['OPENAI_BASE_URL'] = this.settings.customApiBaseUrl;
+			}
+
+			const serverProcess = spawn(opencodePath, [
+				'serve',
+				'--port', String(client.port),
+				'--hostname', client.hostname
+			], {
+				cwd: this.vaultPath,
+				env,
+				stdio: ['ignore', 'pipe', 'pipe']
+			});
+
+			serverProcess.stderr?.on('data', (data: Buffer) => {
+				console.error('OpenCode server stderr:', data.toString());
+			});
+			serverProcess.on('exit', () => {
+				if (this.serverProcess === serverProcess) {
+					this.serverProcess = null;
+				}
+			});
+			serverProcess.on('error', (error) => {
+				this.state.lastError = error.message;
 			});
 
-			this.process?.kill('SIGTERM');
+			this.serverProcess = serverProcess;
+		}
+
+		const deadline = Date.now() + SERVER_STARTUP_TIMEOUT;
+		while (Date.now() < deadline) {
+			if (!this.serverProcess) {
+				throw new Error(`OpenCode server exited before listening on port ${client.port}`);
+			}
+			if (await client.isReachable()) {
+				return;
+			}
+			await new Promise(resolve => setTimeout(resolve, 250));
+		}
+
+		throw new Error(`Timed out waiting for OpenCode server on port ${client.port}`);
+	}
+
+	private disposeServer(): void {
+		this.serverClient?.disconnect();
+		this.serverClient = null;
+		if (this.serverProcess) {
+			this.serverProcess.kill('SIGTERM');
+			this.serverProcess = null;
+		}
+	}
+
+	async stop(): Promise<void> {
+		if (this.settings.executionMode === 'server') {
+			if (this.serverClient && this.state.isRunning && this.state.sessionID) {
+				try {
+					await this.serverClient.abort(this.state.sessionID);
+				} catch (error) {
+					console.error('Failed to abort OpenCode server session:', error);
+				}
+			}
+			return;
+		}
+
+		const child = this.process;
+		if (!child || !this.state.isRunning) {
+			return;
+		}
 
-			setTimeout(() => {
-				if (this.process && this.state.isRunning) {
-					this.process.kill('SIGKILL');
+		return new Promise((resolve) => {
+			// Only this child is killed; a run started after it must survive the timer
+			const killTimer = setTimeout(() => {
+				if (child.exitCode === null && child.signalCode === null) {
+					child.kill('SIGKILL');
 				}
 				resolve();
 			}, 3000);
+
+			child.once('exit', () => {
+				clearTimeout(killTimer);
+				resolve();
+			});
+
+			child.kill('SIGTERM');
 		});
 	}
 
+	/**
+	 * Cancels the current run and drops any queued messages.
+	 * Emits 'aborted' before the process is stopped so views can
+	 * finalize partial output.
+	 */
+	async abort(): Promise<void> {
+		this.messageQueue = [];
+		if (!this.state.isRunning) {
+			return;
+		}
+
+		this.aborting = true;
+		this.emit('aborted');
+		await this.stop();
+	}
+
 	async restart(): Promise<void> {
 		await this.stop();
 		this.parser.reset();
@@ -401,4 +824,36 @@ export class ProcessManager extends EventEmitter {
 		this.state.sessionID = null;
 		this.parser.reset();
 	}
+
+	/**
+	 * Adopts a session started elsewhere (e.g. the terminal view) so the
+	 * next chat message continues it.
+	 */
+	setSessionID(sessionID: string | null): void {
+		if (this.state.sessionID === sessionID) return;
+		this.parser.reset();
+		this.state.sessionID = sessionID;
+		if (sessionID) {
+			this.emit('session', sessionID);
+		}
+	}
+
+	async getLatestSessionID(): Promise<string | null> {
+		try {
+			const path = await this.findOpenCodePath();
+			const { stdout } = await execAsync(`"${path}" session list --format json -n 1`, {
+				cwd: this.vaultPath,
+				timeout: 10000
+			});
+			const sessions = JSON.parse(stdout) as { id: string }[];
+			return sessions[0]?.id || null;
+		} catch {
+			return null;
+		}
+	}
+
+	async dispose(): Promise<void> {
+		await this.stop();
+		this.disposeServer();
+	}
 }
@@ -0,0 +1,110 @@
+import { App, FuzzyMatch, FuzzySuggestModal, Modal, Setting } from 'obsidian';
+import { PromptTemplate, TemplateVariable } from './PromptTemplates';
+
+export class PromptTemplateModal extends FuzzySuggestModal<PromptTemplate> {
+	private templates: PromptTemplate[];
+	private onChoose: (template: PromptTemplate) => void;
+
+	constructor(app: App, templates: PromptTemplate[], onChoose: (template: PromptTemplate) => void) {
+		super(app);
+		this.templates = templates;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a prompt template...');
+	}
+
+	getItems(): PromptTemplate[] {
+		return this.templates;
+	}
+
+	getItemText(template: PromptTemplate): string {
+		return `${template.name} ${template.description}`;
+	}
+
+	renderSuggestion(match: FuzzyMatch<PromptTemplate>, el: HTMLElement): void {
+		const template = match.item;
+		el.createDiv({ text: template.name });
+		const details = [template.description, template.model && `🤖 ${template.model}`, template.agent && `🧭 ${template.agent}`]
+			.filter(Boolean)
+			.join(' · ');
+		if (details) {
+			el.createEl('small', { text: details, cls: 'opencode-template-details' });
+		}
+	}
+
+	onChooseItem(template: PromptTemplate): void {
+		this.onChoose(template);
+	}
+}
+
+/**
+ * Asks for the values of a template's `prompt` variables.
+ */
+export class TemplateVariablesModal extends Modal {
+	private template: PromptTemplate;
+	private variables: TemplateVariable[];
+	private values: Record<string, string> = {};
+	private resolve: (values: Record<string, string> | null) => void = () => {};
+	private submitted: boolean = false;
+
+	constructor(app: App, template: PromptTemplate, variables: TemplateVariable[]) {
+		super(app);
+		this.template = template;
+		this.variables = variables;
+	}
+
+	prompt(): Promise<Record<string, string> | null> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.titleEl.setText(this.template.name);
+
+		for (const variable of this.variables) {
+			this.values[variable.name] = variable.default || '';
+			new Setting(contentEl)
+				.setName(variable.name)
+				.setDesc(variable.description || '')
+				.addTextArea(text => {
+					text.setValue(this.values[variable.name])
+						.onChange(value => {
+							this.values[variable.name] = value;
+						});
+					text.inputEl.rows = 2;
+					text.inputEl.addEventListener('keydown', (e) => {
+						if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+							e.preventDefault();
+							this.submit();
+						}
+					});
+				});
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('Send')
+				.setCta()
+				.onClick(() => this.submit()));
+
+		contentEl.querySelector('textarea')?.focus();
+	}
+
+	private submit(): void {
+		this.submitted = true;
+		this.resolve({ ...this.values });
+		this.close();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		if (!this.submitted) {
+			this.resolve(null);
+		}
+	}
+}
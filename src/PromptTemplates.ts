@@ -0,0 +1,129 @@
+import { App, TFile, moment, normalizePath } from 'obsidian';
+import { OpenCodeSettings } from './types';
+import { getEditorSelection } from './SlashCommands';
+
+export type TemplateVariableSource = 'prompt' | 'selection' | 'activeNote' | 'activeNoteContent';
+
+export interface TemplateVariable {
+	name: string;
+	from: TemplateVariableSource;
+	description?: string;
+	default?: string;
+}
+
+export interface PromptTemplate {
+	file: TFile;
+	name: string;
+	description: string;
+	model?: string;
+	agent?: string;
+	variables: TemplateVariable[];
+}
+
+const SOURCES: TemplateVariableSource[] = ['prompt', 'selection', 'activeNote', 'activeNoteContent'];
+
+/**
+ * Notes in the templates folder, read from the metadata cache. Frontmatter
+ * may set `description`, `model`, `agent` and `variables`; the note body is
+ * the prompt.
+ */
+export function getPromptTemplates(app: App, folder: string): PromptTemplate[] {
+	if (!folder) return [];
+	const prefix = `${normalizePath(folder)}/`;
+
+	return app.vault.getMarkdownFiles()
+		.filter(file => file.path.startsWith(prefix))
+		.sort((a, b) => a.basename.localeCompare(b.basename))
+		.map(file => {
+			const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter || {};
+			return {
+				file,
+				name: file.basename,
+				description: typeof frontmatter.description === 'string' ? frontmatter.description : '',
+				model: typeof frontmatter.model === 'string' ? frontmatter.model : undefined,
+				agent: typeof frontmatter.agent === 'string' ? frontmatter.agent : undefined,
+				variables: parseVariables(frontmatter.variables)
+			};
+		});
+}
+
+/**
+ * Accepts a list of names (asked for in a modal) or objects with `name`,
+ * `from`, `description` and `default`.
+ */
+function parseVariables(value: unknown): TemplateVariable[] {
+	if (!Array.isArray(value)) return [];
+
+	const variables: TemplateVariable[] = [];
+	for (const entry of value) {
+		if (typeof entry === 'string' && entry.trim()) {
+			variables.push({ name: entry.trim(), from: 'prompt' });
+		} else if (entry && typeof entry === 'object' && typeof entry.name === 'string') {
+			variables.push({
+				name: entry.name,
+				from: SOURCES.includes(entry.from) ? entry.from : 'prompt',
+				description: typeof entry.description === 'string' ? entry.description : undefined,
+				default: entry.default != null ? String(entry.default) : undefined
+			});
+		}
+	}
+	return variables;
+}
+
+/**
+ * A template's pinned model as a provider/model id. Bare model names are
+ * matched against the favorites first, then the configured provider.
+ */
+export function resolveTemplateModel(settings: OpenCodeSettings, model: string | undefined): string | undefined {
+	if (!model) return undefined;
+	if (model.includes('/')) return model;
+
+	const favorite = settings.favoriteModels.find(f => f.endsWith(`/${model}`));
+	return favorite || `${settings.provider}/${model}`;
+}
+
+/**
+ * Fills a template's placeholders. `{{selection}}`, `{{activeNote}}`,
+ * `{{activeNoteContent}}` and `{{date}}` are always available; declared
+ * variables come from their source or `askForValues`. Resolves to null
+ * when the user cancels.
+ */
+export async function fillPromptTemplate(
+	app: App,
+	template: PromptTemplate,
+	askForValues: (variables: TemplateVariable[]) => Promise<Record<string, string> | null>
+): Promise<string | null> {
+	const body = stripFrontmatter(await app.vault.cachedRead(template.file)).trim();
+
+	const activeFile = app.workspace.getActiveFile();
+	const needsContent = body.includes('activeNoteContent') || template.variables.some(v => v.from === 'activeNoteContent');
+	const builtins: Record<string, string> = {
+		selection: getEditorSelection(app),
+		activeNote: activeFile?.path || '',
+		activeNoteContent: activeFile && needsContent ? await app.vault.cachedRead(activeFile) : '',
+		date: moment().format('YYYY-MM-DD')
+	};
+
+	const values: Record<string, string> = {};
+	const asked = template.variables.filter(v => v.from === 'prompt');
+	if (asked.length > 0) {
+		const answers = await askForValues(asked);
+		if (!answers) return null;
+		Object.assign(values, answers);
+	}
+	for (const variable of template.variables) {
+		if (variable.from !== 'prompt') {
+			values[variable.name] = builtins[variable.from] || variable.default || '';
+		}
+	}
+
+	return body.replace(/{{\s*([\w-]+)\s*}}/g, (match, name: string) => {
+		if (Object.prototype.hasOwnProperty.call(values, name)) return values[name];
+		if (Object.prototype.hasOwnProperty.call(builtins, name)) return builtins[name];
+		return match;
+	});
+}
+
+function stripFrontmatter(content: string): string {
+	return content.replace(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/, '');
+}
@@ -0,0 +1,201 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import { Writable } from 'stream';
+import { PtyBridge, PtyBridgeOptions, PtyExit, PTY_BRIDGE_PROTOCOL } from './PtyBridge';
+
+// The bridge needs a POSIX pseudo-terminal; Windows spawns the command directly
+const skip = process.platform === 'win32';
+
+interface RunningBridge {
+	bridge: PtyBridge;
+	output: () => string;
+	errors: Error[];
+	waitForOutput: (text: string) => Promise<void>;
+	exited: Promise<PtyExit>;
+}
+
+/**
+ * Starts a bridge on a dummy `sh -c` child and collects what it prints.
+ */
+function startShell(script: string, options: Partial<PtyBridgeOptions> = {}): RunningBridge {
+	const bridge = new PtyBridge({
+		command: 'sh',
+		args: ['-c', script],
+		cwd: os.tmpdir(),
+		env: process.env,
+		rows: 24,
+		cols: 80,
+		...options
+	});
+
+	let output = '';
+	const waiters: { text: string; resolve: () => void }[] = [];
+	bridge.on('data', (data: Buffer) => {
+		output += data.toString();
+		for (const waiter of waiters.filter(w => output.includes(w.text))) {
+			waiters.splice(waiters.indexOf(waiter), 1);
+			waiter.resolve();
+		}
+	});
+	const errors: Error[] = [];
+	bridge.on('error', (error: Error) => errors.push(error));
+	const exited = new Promise<PtyExit>(resolve => bridge.once('exit', resolve));
+
+	bridge.start();
+	return {
+		bridge,
+		output: () => output,
+		errors,
+		waitForOutput: (text) => output.includes(text)
+			? Promise.resolve()
+			: new Promise(resolve => waiters.push({ text, resolve })),
+		exited
+	};
+}
+
+test('propagates the exit code of the child', { skip }, async () => {
+	const { exited } = startShell('exit 3');
+	assert.deepEqual(await exited, { code: 3, signal: null });
+});
+
+test('reports a missing command as exit code 127', { skip }, async () => {
+	const { exited } = startShell('', { command: 'opencode-test-no-such-command', args: [] });
+	assert.equal((await exited).code, 127);
+});
+
+test('reports a missing python3 as an error', { skip }, async () => {
+	const bridge = new PtyBridge({
+		command: 'sh',
+		args: ['-c', 'exit 0'],
+		cwd: os.tmpdir(),
+		env: process.env,
+		rows: 24,
+		cols: 80,
+		python: 'python3-opencode-test-missing'
+	});
+	const error = new Promise<Error>(resolve => bridge.once('error', resolve));
+	const exited = new Promise<PtyExit>(resolve => bridge.once('exit', resolve));
+	bridge.start();
+
+	assert.match((await error).message, /python3-opencode-test-missing was not found/);
+	assert.deepEqual(await exited, { code: null, signal: null });
+});
+
+test('starts with the requested size and follows resizes', { skip }, async () => {
+	const { bridge, output, waitForOutput, exited } = startShell('stty size; echo ready; read line; stty size');
+	await waitForOutput('ready');
+	assert.match(output(), /24 80/);
+
+	bridge.resize(30, 100);
+	// Give the control message a head start over the input on stdin
+	await new Promise(resolve => setTimeout(resolve, 100));
+	bridge.write('\n');
+	await exited;
+	assert.match(output(), /30 100/);
+});
+
+test('forwards SIGINT to the child', { skip }, async () => {
+	const { bridge, output, waitForOutput, exited } = startShell('trap "echo got-int; exit 7" INT; echo ready; while :; do sleep 0.1; done');
+	await waitForOutput('ready');
+
+	bridge.signal('SIGINT');
+	assert.equal((await exited).code, 7);
+	assert.match(output(), /got-int/);
+});
+
+test('raises SIGINT for Ctrl-C typed into the terminal', { skip }, async () => {
+	const { bridge, waitForOutput, exited } = startShell('trap "exit 9" INT; echo ready; while :; do sleep 0.1; done');
+	await waitForOutput('ready');
+
+	bridge.write('\x03');
+	assert.equal((await exited).code, 9);
+});
+
+test('stop() ends a child that exits on SIGTERM', { skip }, async () => {
+	const { bridge, waitForOutput, exited } = startShell('echo ready; while :; do sleep 0.1; done');
+	await waitForOutput('ready');
+
+	await bridge.stop(1000);
+	assert.equal((await exited).signal, 'SIGTERM');
+	assert.equal(bridge.isRunning, false);
+});
+
+test('stop() escalates to SIGKILL when SIGTERM is ignored', { skip }, async () => {
+	const { bridge, waitForOutput, exited } = startShell('trap "" TERM; echo ready; while :; do sleep 0.1; done');
+	await waitForOutput('ready');
+
+	const started = Date.now();
+	await bridge.stop(500);
+	assert.equal((await exited).signal, 'SIGKILL');
+	assert.ok(Date.now() - started >= 500, 'stop() should wait for SIGTERM first');
+});
+
+/**
+ * True while a process with the pid is running. A killed orphan lingers as
+ * a zombie until init reaps it, which counts as gone.
+ */
+function isAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+	} catch {
+		return false;
+	}
+	try {
+		// The state follows the parenthesised command name in /proc/<pid>/stat
+		return !/\) Z /.test(fs.readFileSync(`/proc/${pid}/stat`, 'utf8'));
+	} catch {
+		return true;
+	}
+}
+
+test('stop() also ends processes the child started', { skip }, async () => {
+	const { bridge, output, waitForOutput, exited } = startShell('sleep 300 & echo "grandchild $!"; wait');
+	await waitForOutput('grandchild ');
+	await waitForOutput('\n');
+	const grandchild = Number(output().match(/grandchild (\d+)/)?.[1]);
+	assert.ok(grandchild > 0);
+	assert.equal(isAlive(grandchild), true);
+
+	await bridge.stop(1000);
+	await exited;
+	assert.equal(isAlive(grandchild), false);
+});
+
+test('the bridge ends the child when heartbeats stop', { skip }, async () => {
+	// Pings would only be sent after a minute, well past the timeout
+	const { errors, waitForOutput, exited } = startShell('echo ready; while :; do sleep 0.1; done', {
+		heartbeatInterval: 60000,
+		heartbeatTimeout: 1000
+	});
+	await waitForOutput('ready');
+
+	assert.equal((await exited).signal, 'SIGTERM');
+	assert.ok(errors.some(error => /Heartbeat lost/.test(error.message)));
+});
+
+test('heartbeats keep the child running', { skip }, async () => {
+	const { bridge, waitForOutput } = startShell('echo ready; while :; do sleep 0.1; done', {
+		heartbeatInterval: 200,
+		heartbeatTimeout: 1000
+	});
+	await waitForOutput('ready');
+
+	await new Promise(resolve => setTimeout(resolve, 1500));
+	assert.equal(bridge.isRunning, true);
+	await bridge.stop(1000);
+});
+
+test('the bridge rejects control messages of another protocol version', { skip }, async () => {
+	const { bridge, errors, waitForOutput } = startShell('echo ready; while :; do sleep 0.1; done');
+	await waitForOutput('ready');
+
+	const control = (bridge as unknown as { control: Writable }).control;
+	control.write(JSON.stringify({ v: PTY_BRIDGE_PROTOCOL + 1, type: 'signal', signal: 'SIGKILL' }) + '\n');
+	await new Promise(resolve => setTimeout(resolve, 500));
+
+	assert.ok(errors.some(error => error.message.includes(`Unsupported protocol version ${PTY_BRIDGE_PROTOCOL + 1}`)));
+	assert.equal(bridge.isRunning, true);
+	await bridge.stop(1000);
+});
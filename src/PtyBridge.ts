@@ -0,0 +1,378 @@
+import { spawn, ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import { Readable, Writable } from 'stream';
+
+/**
+ * Version of the control protocol spoken with the bridge script. Messages
+ * are JSON lines carrying `v`, sent to the bridge on fd 3 and back on fd 4:
+ *
+ * - to the bridge: `resize {rows, cols}`, `signal {signal}`, `ping {id}`
+ * - from the bridge: `hello {pid}`, `pong {id}`, `exit {code, signal}`,
+ *   `error {message}`
+ *
+ * The bridge terminates the child's process group when the control channel
+ * closes or no message arrives within the heartbeat timeout, so a crashed
+ * Obsidian does not leave agents running.
+ */
+export const PTY_BRIDGE_PROTOCOL = 1;
+
+export type PtySignal = 'SIGINT' | 'SIGTERM' | 'SIGKILL' | 'SIGHUP' | 'SIGQUIT';
+
+export interface PtyExit {
+	code: number | null;
+	signal: string | null;
+}
+
+export interface PtyBridgeOptions {
+	command: string;
+	args: string[];
+	cwd: string;
+	env: NodeJS.ProcessEnv;
+	rows: number;
+	cols: number;
+	python?: string;
+	heartbeatInterval?: number;
+	heartbeatTimeout?: number;
+}
+
+const CONTROL_IN = 3;
+const CONTROL_OUT = 4;
+const STOP_TIMEOUT = 2000;
+
+/**
+ * Forks the command on a pseudo-terminal and relays between it and the
+ * bridge's stdin/stdout. The child gets its own session with the PTY as
+ * controlling terminal, so Ctrl-C typed into it raises SIGINT.
+ */
+const BRIDGE_SCRIPT = `
+import os, sys, pty, select, array, fcntl, termios, signal, json, time
+
+VERSION = ${PTY_BRIDGE_PROTOCOL}
+CONTROL_IN, CONTROL_OUT = ${CONTROL_IN}, ${CONTROL_OUT}
+SIGNALS = ('SIGINT', 'SIGTERM', 'SIGKILL', 'SIGHUP', 'SIGQUIT')
+TIMEOUT = float(os.environ.get('OPENCODE_BRIDGE_TIMEOUT', '15'))
+
+def send(message):
+    message['v'] = VERSION
+    try:
+        os.write(CONTROL_OUT, (json.dumps(message) + '\\n').encode())
+    except OSError:
+        pass
+
+def write_all(fd, data):
+    while data:
+        data = data[os.write(fd, data):]
+
+def set_size(fd, rows, cols):
+    fcntl.ioctl(fd, termios.TIOCSWINSZ, array.array('h', [rows, cols, 0, 0]))
+
+master, slave = pty.openpty()
+set_size(master, int(os.environ.get('ROWS', '24')), int(os.environ.get('COLS', '80')))
+
+pid = os.fork()
+if pid == 0:
+    os.close(master)
+    os.setsid()
+    fcntl.ioctl(slave, termios.TIOCSCTTY, 0)
+    for fd in (0, 1, 2):
+        os.dup2(slave, fd)
+    for fd in (slave, CONTROL_IN, CONTROL_OUT):
+        try:
+            os.close(fd)
+        except OSError:
+            pass
+    try:
+        os.execvp(sys.argv[1], sys.argv[1:])
+    except OSError as error:
+        os.write(2, ('Failed to start %s: %s\\n' % (sys.argv[1], error.strerror)).encode())
+        os._exit(127)
+os.close(slave)
+
+def kill_child(sig):
+    # The child leads its own process group, which also holds its children
+    try:
+        os.killpg(pid, sig)
+    except OSError:
+        try:
+            os.kill(pid, sig)
+        except OSError:
+            pass
+
+def on_terminate(signum, frame):
+    kill_child(signal.SIGTERM)
+
+signal.signal(signal.SIGTERM, on_terminate)
+signal.signal(signal.SIGHUP, on_terminate)
+
+def handle(line):
+    try:
+        message = json.loads(line)
+    except ValueError:
+        send({'type': 'error', 'message': 'Malformed control message'})
+        return
+    if message.get('v') != VERSION:
+        send({'type': 'error', 'message': 'Unsupported protocol version %r' % message.get('v')})
+        return
+    kind = message.get('type')
+    if kind == 'resize':
+        set_size(master, int(message['rows']), int(message['cols']))
+    elif kind == 'signal' and message.get('signal') in SIGNALS:
+        kill_child(getattr(signal, message['signal']))
+    elif kind == 'ping':
+        send({'type': 'pong', 'id': message.get('id')})
+    else:
+        send({'type': 'error', 'message': 'Unknown control message %r' % kind})
+
+send({'type': 'hello', 'version': VERSION, 'pid': pid})
+
+sources = [master, 0, CONTROL_IN]
+pending = b''
+last_seen = time.time()
+status = None
+exited_at = None
+
+while True:
+    readable = select.select(sources, [], [], 0.5)[0]
+    if master in readable:
+        try:
+            data = os.read(master, 65536)
+        except OSError:
+            data = b''
+        if data:
+            write_all(1, data)
+        else:
+            sources.remove(master)
+    if 0 in readable:
+        data = os.read(0, 65536)
+        if data:
+            write_all(master, data)
+        else:
+            sources.remove(0)
+    if CONTROL_IN in readable:
+        data = os.read(CONTROL_IN, 65536)
+        if data:
+            last_seen = time.time()
+            pending += data
+            while b'\\n' in pending:
+                line, pending = pending.split(b'\\n', 1)
+                if line.strip():
+                    try:
+                        handle(line)
+                    except Exception as error:
+                        send({'type': 'error', 'message': str(error)})
+        else:
+            sources.remove(CONTROL_IN)
+            kill_child(signal.SIGTERM)
+    if TIMEOUT > 0 and time.time() - last_seen > TIMEOUT:
+        send({'type': 'error', 'message': 'Heartbeat lost'})
+        kill_child(signal.SIGTERM)
+        last_seen = time.time()
+
+    if status is None:
+        done, status_code = os.waitpid(pid, os.WNOHANG)
+        if done == pid:
+            status = status_code
+            exited_at = time.time()
+    # Descendants may keep the terminal open; give output a moment to drain
+    if status is not None and (master not in sources or time.time() - exited_at > 0.5):
+        break
+
+# Take down anything the child left running in its group
+kill_child(signal.SIGTERM)
+
+if os.WIFSIGNALED(status):
+    number = os.WTERMSIG(status)
+    name = next((n for n in SIGNALS if getattr(signal, n) == number), 'SIG%d' % number)
+    send({'type': 'exit', 'code': None, 'signal': name})
+    sys.exit(128 + number)
+code = os.WEXITSTATUS(status)
+send({'type': 'exit', 'code': code, 'signal': None})
+sys.exit(code)
+`.trim();
+
+/**
+ * Runs a command on a pseudo-terminal through a Python bridge. Emits
+ * `ready` (child pid), `data` (Buffer), `error` (Error) and, once the
+ * output is drained, `exit` (PtyExit). Windows has no PTY bridge, so the
+ * command runs on plain pipes there and control messages are ignored.
+ */
+export class PtyBridge extends EventEmitter {
+	private options: PtyBridgeOptions;
+	private process: ChildProcess | null = null;
+	private control: Writable | null = null;
+	private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+	private lastMessageAt: number = 0;
+	private reportedExit: PtyExit | null = null;
+	private exited: boolean = false;
+	private pingId: number = 0;
+
+	constructor(options: PtyBridgeOptions) {
+		super();
+		this.options = options;
+	}
+
+	get isRunning(): boolean {
+		return this.process !== null && !this.exited;
+	}
+
+	start(): void {
+		const { command, args, cwd, env, rows, cols } = this.options;
+
+		if (process.platform === 'win32') {
+			this.process = spawn(command, args, { cwd, env, shell: true });
+		} else {
+			const heartbeatTimeout = this.options.heartbeatTimeout ?? 15000;
+			this.process = spawn(this.options.python || 'python3', ['-c', BRIDGE_SCRIPT, command, ...args], {
+				cwd,
+				env: {
+					...env,
+					ROWS: String(rows),
+					COLS: String(cols),
+					OPENCODE_BRIDGE_TIMEOUT: String(heartbeatTimeout / 1000)
+				},
+				stdio: ['pipe', 'pipe', 'pipe', 'pipe', 'pipe']
+			});
+			this.control = this.process.stdio[CONTROL_IN] as Writable;
+			this.control.on('error', () => {
+				// The bridge is gone; its exit is reported separately
+			});
+			this.readControl(this.process.stdio[CONTROL_OUT] as Readable);
+			this.startHeartbeat(heartbeatTimeout);
+		}
+
+		this.process.stdout?.on('data', (data: Buffer) => this.emit('data', data));
+		this.process.stderr?.on('data', (data: Buffer) => this.emit('data', data));
+		this.process.stdin?.on('error', () => {
+			// Writes after exit are dropped
+		});
+
+		this.process.on('error', (error: NodeJS.ErrnoException) => {
+			if (error.code === 'ENOENT') {
+				const missing = process.platform === 'win32' ? command : (this.options.python || 'python3');
+				this.emit('error', new Error(process.platform === 'win32'
+					? `${missing} was not found. Check the OpenCode path in the settings.`
+					: `${missing} was not found. The terminal needs Python 3 to create a pseudo-terminal; install it or add it to PATH.`));
+			} else {
+				this.emit('error', error);
+			}
+			this.finish({ code: null, signal: null });
+		});
+
+		// 'close' fires after stdout is drained, so no output follows the exit event
+		this.process.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
+			this.finish(this.reportedExit || { code, signal });
+		});
+	}
+
+	write(data: string): void {
+		if (this.isRunning) {
+			this.process?.stdin?.write(data);
+		}
+	}
+
+	resize(rows: number, cols: number): void {
+		this.send({ type: 'resize', rows, cols });
+	}
+
+	signal(signal: PtySignal): void {
+		if (this.control) {
+			this.send({ type: 'signal', signal });
+		} else if (this.isRunning) {
+			this.process?.kill(signal);
+		}
+	}
+
+	/**
+	 * Asks the child to terminate, escalating to SIGKILL for the child and
+	 * then the bridge if it does not exit in time. Resolves once it has.
+	 */
+	async stop(timeout: number = STOP_TIMEOUT): Promise<void> {
+		if (!this.isRunning) return;
+
+		const exited = new Promise<void>(resolve => this.once('exit', () => resolve()));
+		const waitFor = (ms: number) => Promise.race([
+			exited.then(() => true),
+			new Promise<boolean>(resolve => setTimeout(() => resolve(false), ms))
+		]);
+
+		this.signal('SIGTERM');
+		if (await waitFor(timeout)) return;
+		this.signal('SIGKILL');
+		if (await waitFor(timeout / 2)) return;
+		this.process?.kill('SIGKILL');
+		await exited;
+	}
+
+	private send(message: Record<string, unknown>): void {
+		if (!this.control || this.exited) return;
+		this.control.write(JSON.stringify({ v: PTY_BRIDGE_PROTOCOL, ...message }) + '\n');
+	}
+
+	private readControl(stream: Readable): void {
+		let pending = '';
+		stream.on('data', (data: Buffer) => {
+			this.lastMessageAt = Date.now();
+			pending += data.toString();
+			let newline: number;
+			while ((newline = pending.indexOf('\n')) !== -1) {
+				const line = pending.substring(0, newline).trim();
+				pending = pending.substring(newline + 1);
+				if (line) {
+					this.handleMessage(line);
+				}
+			}
+		});
+	}
+
+	private handleMessage(line: string): void {
+		let message: { v?: number; type?: string; [key: string]: unknown };
+		try {
+			message = JSON.parse(line);
+		} catch {
+			this.emit('error', new Error(`Malformed message from terminal bridge: ${line}`));
+			return;
+		}
+		if (message.v !== PTY_BRIDGE_PROTOCOL) {
+			this.emit('error', new Error(`Terminal bridge speaks protocol ${message.v}, expected ${PTY_BRIDGE_PROTOCOL}`));
+			return;
+		}
+
+		switch (message.type) {
+			case 'hello':
+				this.emit('ready', message.pid);
+				break;
+			case 'exit':
+				this.reportedExit = {
+					code: typeof message.code === 'number' ? message.code : null,
+					signal: typeof message.signal === 'string' ? message.signal : null
+				};
+				break;
+			case 'error':
+				this.emit('error', new Error(`Terminal bridge: ${message.message}`));
+				break;
+		}
+	}
+
+	private startHeartbeat(timeout: number): void {
+		const interval = this.options.heartbeatInterval ?? 5000;
+		this.lastMessageAt = Date.now();
+		this.heartbeatTimer = setInterval(() => {
+			if (Date.now() - this.lastMessageAt > timeout) {
+				this.emit('error', new Error('Terminal bridge stopped responding'));
+				this.process?.kill('SIGKILL');
+				return;
+			}
+			this.send({ type: 'ping', id: ++this.pingId });
+		}, interval);
+	}
+
+	private finish(exit: PtyExit): void {
+		if (this.exited) return;
+		this.exited = true;
+		if (this.heartbeatTimer) {
+			clearInterval(this.heartbeatTimer);
+			this.heartbeatTimer = null;
+		}
+		this.emit('exit', exit);
+	}
+}
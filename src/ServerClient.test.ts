@@ -0,0 +1,194 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ServerClient } from './ServerClient';
+import { ParsedEvent, ParsedTextEvent } from './StreamParser';
+
+const MODEL = { providerID: 'anthropic', modelID: 'claude-sonnet-4-5' };
+
+/**
+ * Stands in for `opencode serve`: answers the session and prompt requests
+ * and publishes events to every open `/event` stream. `onPrompt` decides
+ * which events a prompt produces and when.
+ */
+class StubServer {
+	server: http.Server;
+	streams: http.ServerResponse[] = [];
+	onPrompt: (sessionID: string, text: string) => void = () => {};
+
+	constructor() {
+		this.server = http.createServer((req, res) => {
+			if (req.method === 'GET' && req.url === '/event') {
+				res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+				res.write(': connected\n\n');
+				this.streams.push(res);
+				return;
+			}
+			if (req.method === 'GET' && req.url === '/session') {
+				res.end('[]');
+				return;
+			}
+			if (req.method === 'POST' && req.url === '/session') {
+				res.end(JSON.stringify({ id: 'ses_1' }));
+				return;
+			}
+
+			const prompt = req.url?.match(/^\/session\/([^/]+)\/message$/);
+			if (req.method === 'POST' && prompt) {
+				let body = '';
+				req.on('data', chunk => {
+					body += chunk;
+				});
+				req.on('end', () => {
+					this.onPrompt(prompt[1], JSON.parse(body).parts[0].text);
+					res.end('{}');
+				});
+				return;
+			}
+
+			res.writeHead(404);
+			res.end();
+		});
+	}
+
+	listen(): Promise<number> {
+		return new Promise(resolve => {
+			this.server.listen(0, '127.0.0.1', () => resolve((this.server.address() as AddressInfo).port));
+		});
+	}
+
+	publish(type: string, properties: Record<string, unknown>): void {
+		for (const stream of this.streams) {
+			stream.write(`data: ${JSON.stringify({ type, properties })}\n\n`);
+		}
+	}
+
+	close(): Promise<void> {
+		for (const stream of this.streams) {
+			stream.end();
+		}
+		return new Promise(resolve => this.server.close(() => resolve()));
+	}
+}
+
+function textPart(id: string, messageID: string, text: string) {
+	return { part: { id, sessionID: 'ses_1', messageID, type: 'text', text } };
+}
+
+function collectEvents(client: ServerClient): ParsedEvent[] {
+	const events: ParsedEvent[] = [];
+	client.on('event', (event: ParsedEvent) => events.push(event));
+	return events;
+}
+
+let stub: StubServer;
+let client: ServerClient;
+
+beforeEach(async () => {
+	stub = new StubServer();
+	client = new ServerClient(await stub.listen());
+});
+
+afterEach(async () => {
+	client.disconnect();
+	await stub.close();
+});
+
+test('connectEvents resolves once the stream is subscribed', async () => {
+	const events = collectEvents(client);
+	// Events published during the very first prompt must not be lost
+	stub.onPrompt = () => stub.publish('message.part.updated', textPart('prt_1', 'msg_1', 'Hello'));
+
+	await client.connectEvents();
+	assert.equal(stub.streams.length, 1);
+	const { idle, cancel } = client.waitForIdle('ses_1');
+	await client.prompt('ses_1', MODEL, 'Hi');
+	stub.publish('session.idle', { sessionID: 'ses_1' });
+	await idle;
+	cancel();
+
+	assert.deepEqual(events.map(event => (event as ParsedTextEvent).content), ['Hello']);
+});
+
+test('connectEvents reuses the open subscription', async () => {
+	await client.connectEvents();
+	await client.connectEvents();
+	assert.equal(stub.streams.length, 1);
+});
+
+test('connectEvents rejects when the server is not listening', async () => {
+	const port = (stub.server.address() as AddressInfo).port;
+	await stub.close();
+	const offline = new ServerClient(port);
+	await assert.rejects(offline.connectEvents());
+	offline.disconnect();
+});
+
+test('waitForIdle waits for events that trail the prompt response', async () => {
+	const events = collectEvents(client);
+	stub.onPrompt = () => {
+		setTimeout(() => {
+			stub.publish('message.part.updated', textPart('prt_1', 'msg_1', 'Done'));
+			stub.publish('message.part.updated', { part: { id: 'prt_2', sessionID: 'ses_1', messageID: 'msg_1', type: 'step-finish', cost: 0.01 } });
+			stub.publish('session.idle', { sessionID: 'ses_1' });
+		}, 200);
+	};
+
+	await client.connectEvents();
+	const { idle } = client.waitForIdle('ses_1');
+	await client.prompt('ses_1', MODEL, 'Hi');
+	assert.equal(events.length, 0);
+
+	await idle;
+	assert.deepEqual(events.map(event => event.type), ['text', 'step_finish']);
+});
+
+test('waitForIdle ignores other sessions', async () => {
+	await client.connectEvents();
+	const { idle, cancel } = client.waitForIdle('ses_1');
+	let settled = false;
+	idle.then(() => {
+		settled = true;
+	});
+
+	stub.publish('session.idle', { sessionID: 'ses_2' });
+	await new Promise(resolve => setTimeout(resolve, 50));
+	assert.equal(settled, false);
+
+	cancel();
+	await idle;
+});
+
+test('text parts emit only what was not emitted yet', async () => {
+	const events = collectEvents(client);
+	await client.connectEvents();
+	const { idle } = client.waitForIdle('ses_1');
+
+	stub.publish('message.updated', { info: { id: 'msg_0', role: 'user', sessionID: 'ses_1' } });
+	stub.publish('message.part.updated', textPart('prt_0', 'msg_0', 'The prompt'));
+	stub.publish('message.part.updated', textPart('prt_1', 'msg_1', 'Hel'));
+	stub.publish('message.part.updated', textPart('prt_1', 'msg_1', 'Hello world'));
+	stub.publish('session.idle', { sessionID: 'ses_1' });
+	await idle;
+
+	assert.deepEqual(events.map(event => (event as ParsedTextEvent).content), ['Hel', 'lo world']);
+});
+
+test('finished messages are no longer tracked', async () => {
+	await client.connectEvents();
+	const { idle } = client.waitForIdle('ses_1');
+	const tracked = client as unknown as { messageRoles: Map<string, unknown>; textLengths: Map<string, unknown> };
+
+	stub.publish('message.updated', { info: { id: 'msg_0', role: 'user', sessionID: 'ses_1' } });
+	stub.publish('message.updated', { info: { id: 'msg_1', role: 'assistant', sessionID: 'ses_1', time: { created: 1 } } });
+	stub.publish('message.part.updated', textPart('prt_1', 'msg_1', 'Hello'));
+	stub.publish('message.updated', { info: { id: 'msg_1', role: 'assistant', sessionID: 'ses_1', time: { created: 1, completed: 2 } } });
+	await new Promise(resolve => setTimeout(resolve, 50));
+	assert.deepEqual([...tracked.messageRoles.keys()], ['msg_0']);
+	assert.equal(tracked.textLengths.size, 0);
+
+	stub.publish('session.idle', { sessionID: 'ses_1' });
+	await idle;
+	assert.equal(tracked.messageRoles.size, 0);
+});
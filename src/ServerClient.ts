@@ -0,0 +1,405 @@
+import * as http from 'http';
+import { EventEmitter } from 'events';
+import { FileAttachment } from './types';
+import { ParsedEvent, ParsedToolEvent, ParsedStepEvent, ParsedTextEvent, ParsedReasoningEvent, ParsedErrorEvent, ToolState, TokenUsage } from './StreamParser';
+
+const RECONNECT_DELAY = 1000;
+
+export interface ServerModel {
+	providerID: string;
+	modelID: string;
+}
+
+interface ServerPart {
+	id: string;
+	sessionID: string;
+	messageID: string;
+	type: string;
+	text?: string;
+	synthetic?: boolean;
+	tool?: string;
+	callID?: string;
+	state?: ToolState;
+	reason?: string;
+	cost?: number;
+	tokens?: TokenUsage;
+}
+
+interface ServerEvent {
+	type: string;
+	properties: {
+		part?: ServerPart;
+		info?: { id: string; role: string; sessionID: string; time?: { created: number; completed?: number } };
+		sessionID?: string;
+		error?: { name?: string; data?: { message?: string } };
+	};
+}
+
+/**
+ * Minimal client for the HTTP API exposed by `opencode serve`.
+ * Parts received on the `/event` SSE stream are translated into the same
+ * ParsedEvent shapes StreamParser produces for `opencode run --format json`,
+ * and emitted as ('event', parsedEvent, sessionID).
+ */
+export class ServerClient extends EventEmitter {
+	readonly hostname: string;
+	readonly port: number;
+	private eventRequest: http.ClientRequest | null = null;
+	private eventsConnected: Promise<void> | null = null;
+	private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+	private disposed: boolean = false;
+	// Kept only while a message is in progress; see forgetMessage()
+	private messageRoles: Map<string, { role: string; sessionID: string }> = new Map();
+	private textLengths: Map<string, { messageID: string; sessionID: string; length: number }> = new Map();
+
+	constructor(port: number, hostname: string = '127.0.0.1') {
+		super();
+		this.port = port;
+		this.hostname = hostname;
+	}
+
+	get baseUrl(): string {
+		return `http://${this.hostname}:${this.port}`;
+	}
+
+	async isReachable(): Promise<boolean> {
+		try {
+			await this.request('GET', '/session', undefined, 1000);
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	async createSession(): Promise<string> {
+		const session = await this.request<{ id: string }>('POST', '/session', {});
+		if (!session || !session.id) {
+			throw new Error('Server did not return a session ID');
+		}
+		return session.id;
+	}
+
+	/**
+	 * Resolves once the server has answered the request. Streaming output
+	 * arrives separately through the event stream and can trail the
+	 * response; the turn is over when waitForIdle() resolves.
+	 */
+	async prompt(sessionID: string, model: ServerModel, text: string, files: FileAttachment[] = [], agent?: string): Promise<void> {
+		const fileParts = files.map(file => ({
+			type: 'file',
+			mime: file.mime,
+			filename: file.name,
+			url: `file://${file.path.replace(/\\/g, '/')}`
+		}));
+		await this.request('POST', `/session/${encodeURIComponent(sessionID)}/message`, {
+			model,
+			agent,
+			parts: [{ type: 'text', text }, ...fileParts]
+		});
+	}
+
+	async deleteSession(sessionID: string): Promise<void> {
+		await this.request('DELETE', `/session/${encodeURIComponent(sessionID)}`, undefined, 5000);
+	}
+
+	async abort(sessionID: string): Promise<void> {
+		await this.request('POST', `/session/${encodeURIComponent(sessionID)}/abort`, {}, 5000);
+	}
+
+	/**
+	 * Waits for the next `session.idle` of the session. `cancel` stops
+	 * waiting and resolves `idle` right away.
+	 */
+	waitForIdle(sessionID: string): { idle: Promise<void>; cancel: () => void } {
+		let cancel = () => {};
+		const idle = new Promise<void>(resolve => {
+			const onIdle = (idleSessionID: string) => {
+				if (idleSessionID === sessionID) {
+					cancel();
+				}
+			};
+			cancel = () => {
+				this.off('idle', onIdle);
+				resolve();
+			};
+			this.on('idle', onIdle);
+		});
+		return { idle, cancel };
+	}
+
+	/**
+	 * Subscribes to the `/event` stream, resolving once the server has
+	 * accepted the subscription so no event published after that is missed.
+	 * Resolves immediately while already subscribed.
+	 */
+	connectEvents(): Promise<void> {
+		if (this.disposed) {
+			return Promise.reject(new Error('Server client was disconnected'));
+		}
+		if (this.eventsConnected) {
+			return this.eventsConnected;
+		}
+
+		this.eventsConnected = new Promise((resolve, reject) => {
+			const req = http.request({
+				hostname: this.hostname,
+				port: this.port,
+				path: '/event',
+				method: 'GET',
+				headers: { Accept: 'text/event-stream' }
+			}, (res) => {
+				if (res.statusCode && res.statusCode >= 400) {
+					res.resume();
+					reject(new Error(`Event stream responded with ${res.statusCode}`));
+					this.scheduleReconnect();
+					return;
+				}
+				resolve();
+
+				let buffer = '';
+				res.setEncoding('utf8');
+				res.on('data', (chunk: string) => {
+					buffer += chunk.replace(/\r\n/g, '\n');
+					const blocks = buffer.split('\n\n');
+					buffer = blocks.pop() || '';
+					for (const block of blocks) {
+						this.parseEventBlock(block);
+					}
+				});
+				res.on('end', () => this.scheduleReconnect());
+			});
+
+			req.on('error', (error) => {
+				reject(error);
+				this.scheduleReconnect();
+			});
+			req.end();
+			this.eventRequest = req;
+		});
+		return this.eventsConnected;
+	}
+
+	disconnect(): void {
+		this.disposed = true;
+		if (this.reconnectTimer) {
+			clearTimeout(this.reconnectTimer);
+			this.reconnectTimer = null;
+		}
+		if (this.eventRequest) {
+			this.eventRequest.destroy();
+			this.eventRequest = null;
+		}
+		this.eventsConnected = null;
+		this.removeAllListeners();
+	}
+
+	private scheduleReconnect(): void {
+		this.eventRequest = null;
+		this.eventsConnected = null;
+		if (this.disposed || this.reconnectTimer) return;
+		this.reconnectTimer = setTimeout(() => {
+			this.reconnectTimer = null;
+			// Failures schedule the next attempt themselves
+			this.connectEvents().catch(() => {});
+		}, RECONNECT_DELAY);
+	}
+
+	private parseEventBlock(block: string): void {
+		const data = block
+			.split('\n')
+			.filter(line => line.startsWith('data:'))
+			.map(line => line.substring(5).trimStart())
+			.join('\n');
+		if (!data) return;
+
+		try {
+			this.handleServerEvent(JSON.parse(data) as ServerEvent);
+		} catch {
+			// Ignore malformed events
+		}
+	}
+
+	private handleServerEvent(event: ServerEvent): void {
+		const props = event.properties || {};
+
+		switch (event.type) {
+			case 'message.updated':
+				if (props.info?.time?.completed) {
+					this.forgetMessage(props.info.id);
+				} else if (props.info) {
+					this.messageRoles.set(props.info.id, { role: props.info.role, sessionID: props.info.sessionID });
+				}
+				break;
+
+			case 'message.part.updated':
+				if (props.part) {
+					this.handlePart(props.part);
+				}
+				break;
+
+			case 'session.error':
+				if (props.sessionID) {
+					this.emit('event', {
+						type: 'error',
+						message: props.error?.data?.message || props.error?.name || 'Unknown error'
+					} as ParsedErrorEvent, props.sessionID);
+				}
+				break;
+
+			case 'session.idle':
+				if (props.sessionID) {
+					this.forgetSession(props.sessionID);
+					this.emit('idle', props.sessionID);
+				}
+				break;
+		}
+	}
+
+	private handlePart(part: ServerPart): void {
+		switch (part.type) {
+			case 'text': {
+				if (part.synthetic || this.messageRoles.get(part.messageID)?.role === 'user' || !part.text) {
+					return;
+				}
+				const chunk = this.takeTextDelta(part);
+				if (chunk) {
+					this.emit('event', {
+						type: 'text',
+						content: chunk,
+						messageID: part.messageID
+					} as ParsedTextEvent, part.sessionID);
+				}
+				break;
+			}
+
+			case 'reasoning': {
+				const chunk = this.takeTextDelta(part);
+				if (chunk) {
+					this.emit('event', {
+						type: 'reasoning',
+						content: chunk,
+						messageID: part.messageID
+					} as ParsedReasoningEvent, part.sessionID);
+				}
+				break;
+			}
+
+			case 'tool': {
+				const state = part.state;
+				this.emit('event', {
+					type: 'tool',
+					toolName: part.tool || 'unknown',
+					callID: part.callID || part.id,
+					status: state?.status || 'pending',
+					input: state?.input,
+					output: state?.output,
+					title: state?.title,
+					error: state?.error
+				} as ParsedToolEvent, part.sessionID);
+				break;
+			}
+
+			case 'step-start':
+				this.emit('event', { type: 'step_start' } as ParsedStepEvent, part.sessionID);
+				break;
+
+			case 'step-finish':
+				this.emit('event', {
+					type: 'step_finish',
+					reason: part.reason,
+					tokens: part.tokens,
+					cost: part.cost
+				} as ParsedStepEvent, part.sessionID);
+				break;
+		}
+	}
+
+	/**
+	 * Text and reasoning parts are re-sent in full on every update;
+	 * returns only the portion not emitted yet.
+	 */
+	private takeTextDelta(part: ServerPart): string {
+		if (!part.text) return '';
+		const emitted = this.textLengths.get(part.id)?.length || 0;
+		this.textLengths.set(part.id, { messageID: part.messageID, sessionID: part.sessionID, length: part.text.length });
+		return part.text.substring(emitted);
+	}
+
+	/**
+	 * Drops what was tracked for a message once it is finished, so the
+	 * maps do not grow over the server's lifetime.
+	 */
+	private forgetMessage(messageID: string): void {
+		this.messageRoles.delete(messageID);
+		for (const [partID, text] of this.textLengths) {
+			if (text.messageID === messageID) {
+				this.textLengths.delete(partID);
+			}
+		}
+	}
+
+	/**
+	 * Drops whatever is left of a session's turn once it is idle, such as
+	 * user messages, which never complete.
+	 */
+	private forgetSession(sessionID: string): void {
+		for (const [messageID, message] of this.messageRoles) {
+			if (message.sessionID === sessionID) {
+				this.messageRoles.delete(messageID);
+			}
+		}
+		for (const [partID, text] of this.textLengths) {
+			if (text.sessionID === sessionID) {
+				this.textLengths.delete(partID);
+			}
+		}
+	}
+
+	private request<T = unknown>(method: string, path: string, body?: unknown, timeout?: number): Promise<T> {
+		return new Promise((resolve, reject) => {
+			const payload = body !== undefined ? JSON.stringify(body) : undefined;
+			const headers: Record<string, string | number> = { Accept: 'application/json' };
+			if (payload !== undefined) {
+				headers['Content-Type'] = 'application/json';
+				headers['Content-Length'] = Buffer.byteLength(payload);
+			}
+
+			const req = http.request({
+				hostname: this.hostname,
+				port: this.port,
+				path,
+				method,
+				headers
+			}, (res) => {
+				let data = '';
+				res.setEncoding('utf8');
+				res.on('data', (chunk: string) => {
+					data += chunk;
+				});
+				res.on('end', () => {
+					if (res.statusCode && res.statusCode >= 400) {
+						reject(new Error(`Server responded with ${res.statusCode}: ${data.trim()}`));
+						return;
+					}
+					try {
+						resolve((data ? JSON.parse(data) : undefined) as T);
+					} catch {
+						resolve(undefined as T);
+					}
+				});
+			});
+
+			if (timeout) {
+				req.setTimeout(timeout, () => {
+					req.destroy(new Error(`Request to ${path} timed out`));
+				});
+			}
+
+			req.on('error', reject);
+			if (payload !== undefined) {
+				req.write(payload);
+			}
+			req.end();
+		});
+	}
+}
@@ -1,5 +1,5 @@
 import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
-import { OpenCodeSettings, Provider, ExecutionMode, Theme, PROVIDERS } from './types';
+import { OpenCodeSettings, Provider, ExecutionMode, Theme, BudgetAction, PROVIDERS } from './types';
 import type OpenCodePlugin from './main';
 
 export class OpenCodeSettingTab extends PluginSettingTab {
@@ -194,7 +194,7 @@ export class OpenCodeSettingTab extends PluginSettingTab {
 		if (this.plugin.settings.executionMode === 'server') {
 			new Setting(containerEl)
 				.setName('Server Port')
-				.setDesc('Port for OpenCode server')
+				.setDesc('Port of the local `opencode serve` instance (started automatically if nothing is listening)')
 				.addText(text => text
 					.setPlaceholder('3000')
 					.setValue(String(this.plugin.settings.serverPort))
@@ -307,9 +307,20 @@ export class OpenCodeSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Agent')
+			.setDesc('OpenCode agent used for chat turns (leave empty for the default). Can also be changed with /agent.')
+			.addText(text => text
+				.setPlaceholder('build')
+				.setValue(this.plugin.settings.agent)
+				.onChange(async (value) => {
+					this.plugin.settings.agent = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('Context Window Limit')
-			.setDesc('Maximum tokens for context (depends on model)')
+			.setDesc('Maximum tokens for context (depends on model). The chat offers to compact a conversation before a turn would go over it.')
 			.addSlider(slider => slider
 				.setLimits(4096, 200000, 4096)
 				.setValue(this.plugin.settings.contextWindowLimit)
@@ -319,11 +330,67 @@ export class OpenCodeSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Auto-Compact')
+			.setDesc('Summarize earlier turns into a new session automatically instead of asking first')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autoCompact)
+				.onChange(async (value) => {
+					this.plugin.settings.autoCompact = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Archive Conversations After')
+			.setDesc('Days without activity before a conversation moves to the archive (0 to never archive)')
+			.addText(text => text
+				.setPlaceholder('30')
+				.setValue(String(this.plugin.settings.archiveAfterDays))
+				.onChange(async (value) => {
+					this.plugin.settings.archiveAfterDays = Math.max(0, parseInt(value) || 0);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Vault Checkpoints')
+			.setDesc('Record files touched by each agent turn so the vault can be restored to before a message')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.checkpointsEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.checkpointsEnabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h2', { text: '💰 Budget' });
+
+		new Setting(containerEl)
+			.setName('Monthly Budget')
+			.setDesc('Spending limit in USD per calendar month, from recorded step costs (0 to disable)')
+			.addText(text => text
+				.setPlaceholder('0')
+				.setValue(String(this.plugin.settings.monthlyBudget))
+				.onChange(async (value) => {
+					this.plugin.settings.monthlyBudget = Math.max(0, parseFloat(value) || 0);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('When Budget Is Exceeded')
+			.setDesc('Warn and keep sending, or block new messages until next month')
+			.addDropdown(dropdown => dropdown
+				.addOption('warn', 'Warn')
+				.addOption('block', 'Block sends')
+				.setValue(this.plugin.settings.budgetAction)
+				.onChange(async (value) => {
+					this.plugin.settings.budgetAction = value as BudgetAction;
+					await this.plugin.saveSettings();
+				}));
+
 		containerEl.createEl('h2', { text: '🎨 UI & Appearance' });
 
 		new Setting(containerEl)
 			.setName('Theme')
-			.setDesc('Chat interface theme')
+			.setDesc('Terminal colors. Adaptive follows the Obsidian theme.')
 			.addDropdown(dropdown => {
 				dropdown
 					.addOption('adaptive', 'Adaptive (Follow Obsidian)')
@@ -336,6 +403,39 @@ export class OpenCodeSettingTab extends PluginSettingTab {
 					});
 			});
 
+		new Setting(containerEl)
+			.setName('Terminal Font')
+			.setDesc('Font family of the terminal. Empty uses the Obsidian monospace font.')
+			.addText(text => text
+				.setPlaceholder('Menlo, Monaco, monospace')
+				.setValue(this.plugin.settings.terminalFontFamily)
+				.onChange(async (value) => {
+					this.plugin.settings.terminalFontFamily = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Terminal Font Size')
+			.addSlider(slider => slider
+				.setLimits(8, 24, 1)
+				.setValue(this.plugin.settings.terminalFontSize)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.terminalFontSize = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Terminal Line Height')
+			.addSlider(slider => slider
+				.setLimits(1, 2, 0.1)
+				.setValue(this.plugin.settings.terminalLineHeight)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.terminalLineHeight = value;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('Notifications')
 			.setDesc('Show notifications for completed tasks')
@@ -346,6 +446,30 @@ export class OpenCodeSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		containerEl.createEl('h2', { text: '📤 Export' });
+
+		new Setting(containerEl)
+			.setName('Export Folder')
+			.setDesc('Vault folder where exported conversations are saved')
+			.addText(text => text
+				.setPlaceholder('OpenCode Chats')
+				.setValue(this.plugin.settings.exportFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.exportFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Export Filename Template')
+			.setDesc('Available variables: {{title}}, {{date}}, {{time}}, {{model}}, {{id}}')
+			.addText(text => text
+				.setPlaceholder('{{date}} {{title}}')
+				.setValue(this.plugin.settings.exportFilenameTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.exportFilenameTemplate = value;
+					await this.plugin.saveSettings();
+				}));
+
 		containerEl.createEl('h2', { text: '⭐ Favorite Models' });
 		containerEl.createEl('p', {
 			text: 'Quick access models shown in the toolbar (provider/model format)',
@@ -379,6 +503,68 @@ export class OpenCodeSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 					this.display();
 				}));
+
+		containerEl.createEl('h2', { text: '⚡ Slash Commands' });
+		containerEl.createEl('p', {
+			text: 'Custom /commands for the chat input. Templates can use {{selection}}, {{activeNote}}, {{date}} and {{args}}.',
+			cls: 'setting-item-description'
+		});
+
+		this.plugin.settings.customCommands.forEach((command, index) => {
+			new Setting(containerEl)
+				.setClass('opencode-command-setting')
+				.addText(text => text
+					.setPlaceholder('name')
+					.setValue(command.name)
+					.onChange(async (value) => {
+						command.name = value.trim().replace(/^\//, '').replace(/\s+/g, '-');
+						await this.plugin.saveSettings();
+					}))
+				.addText(text => text
+					.setPlaceholder('Description')
+					.setValue(command.description)
+					.onChange(async (value) => {
+						command.description = value;
+						await this.plugin.saveSettings();
+					}))
+				.addTextArea(text => text
+					.setPlaceholder('Prompt template')
+					.setValue(command.template)
+					.onChange(async (value) => {
+						command.template = value;
+						await this.plugin.saveSettings();
+					}))
+				.addButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove')
+					.onClick(async () => {
+						this.plugin.settings.customCommands.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('+ Add Command')
+				.onClick(async () => {
+					this.plugin.settings.customCommands.push({ name: 'command', description: '', template: '{{args}}' });
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		containerEl.createEl('h2', { text: '📝 Prompt Templates' });
+
+		new Setting(containerEl)
+			.setName('Templates Folder')
+			.setDesc('Notes in this folder are prompt templates, run from the command palette, /template or /<name>. Frontmatter can set description, model, agent and variables.')
+			.addText(text => text
+				.setPlaceholder('OpenCode Templates')
+				.setValue(this.plugin.settings.templatesFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.templatesFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
 	}
 
 	private async loadModelsIntoDropdown(dropdown: HTMLSelectElement): Promise<void> {
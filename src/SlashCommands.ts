@@ -0,0 +1,154 @@
+import { App, MarkdownView, moment } from 'obsidian';
+import { CustomCommand } from './types';
+
+export interface SlashCommand {
+	name: string;
+	description: string;
+	// Shown after the name in autocomplete and /help, e.g. "<id>"
+	args?: string;
+	// Built-in commands run an action; user-defined ones expand into a prompt
+	run?: (args: string) => void | Promise<void>;
+	custom?: CustomCommand;
+}
+
+const MAX_SUGGESTIONS = 20;
+
+export function parseSlashCommand(input: string): { name: string; args: string } | null {
+	const match = input.match(/^\/(\S+)(?:\s+([\s\S]*))?$/);
+	if (!match) return null;
+	return { name: match[1].toLowerCase(), args: (match[2] || '').trim() };
+}
+
+/**
+ * Selection in the most recently focused note editor, since the chat view
+ * has focus while commands run.
+ */
+export function getEditorSelection(app: App): string {
+	const leaf = app.workspace.getMostRecentLeaf(app.workspace.rootSplit);
+	return leaf?.view instanceof MarkdownView ? leaf.view.editor.getSelection() : '';
+}
+
+/**
+ * Fills a user-defined command's template.
+ */
+export function expandCommandTemplate(app: App, command: CustomCommand, args: string): string {
+	const values: Record<string, string> = {
+		selection: getEditorSelection(app),
+		activeNote: app.workspace.getActiveFile()?.path || '',
+		date: moment().format('YYYY-MM-DD'),
+		args
+	};
+
+	// One pass with a function replacer, so `$` sequences and placeholders
+	// inside the inserted text are left as they are
+	return command.template
+		.replace(/{{(selection|activeNote|date|args)}}/g, (match, name: string) => values[name])
+		.trim();
+}
+
+/**
+ * Autocomplete for `/` commands while the command name is being typed.
+ */
+export class SlashCommandSuggest {
+	private inputEl: HTMLTextAreaElement;
+	private popupEl: HTMLElement;
+	private getCommands: () => SlashCommand[];
+	private suggestions: SlashCommand[] = [];
+	private selected: number = 0;
+
+	constructor(inputEl: HTMLTextAreaElement, containerEl: HTMLElement, getCommands: () => SlashCommand[]) {
+		this.inputEl = inputEl;
+		this.getCommands = getCommands;
+		this.popupEl = containerEl.createDiv({ cls: 'opencode-mention-suggest' });
+		this.popupEl.hide();
+
+		this.inputEl.addEventListener('input', () => this.update());
+		this.inputEl.addEventListener('blur', () => {
+			setTimeout(() => this.close(), 150);
+		});
+	}
+
+	handleKeydown(e: KeyboardEvent): boolean {
+		if (this.suggestions.length === 0) return false;
+
+		switch (e.key) {
+			case 'ArrowDown':
+				this.setSelected((this.selected + 1) % this.suggestions.length);
+				break;
+			case 'ArrowUp':
+				this.setSelected((this.selected - 1 + this.suggestions.length) % this.suggestions.length);
+				break;
+			case 'Enter':
+			case 'Tab':
+				this.choose(this.suggestions[this.selected]);
+				break;
+			case 'Escape':
+				this.close();
+				break;
+			default:
+				return false;
+		}
+
+		e.preventDefault();
+		return true;
+	}
+
+	close(): void {
+		this.suggestions = [];
+		this.popupEl.empty();
+		this.popupEl.hide();
+	}
+
+	private update(): void {
+		const match = this.inputEl.value.match(/^\/(\S*)$/);
+		if (!match) {
+			this.close();
+			return;
+		}
+
+		const query = match[1].toLowerCase();
+		this.suggestions = this.getCommands()
+			.filter(command => command.name.startsWith(query))
+			.slice(0, MAX_SUGGESTIONS);
+		// Nothing left to complete once the name is typed out in full
+		if (this.suggestions.length === 1 && this.suggestions[0].name === query) {
+			this.close();
+			return;
+		}
+		this.selected = 0;
+		this.render();
+	}
+
+	private render(): void {
+		this.popupEl.empty();
+		if (this.suggestions.length === 0) {
+			this.popupEl.hide();
+			return;
+		}
+
+		this.suggestions.forEach((command, index) => {
+			const itemEl = this.popupEl.createDiv({ cls: 'opencode-mention-item' });
+			itemEl.createSpan({ text: `/${command.name}${command.args ? ` ${command.args}` : ''}`, cls: 'opencode-slash-name' });
+			itemEl.createSpan({ text: command.description, cls: 'opencode-slash-description' });
+			itemEl.toggleClass('is-selected', index === this.selected);
+			itemEl.addEventListener('mousedown', (e) => {
+				e.preventDefault();
+				this.choose(command);
+			});
+		});
+		this.popupEl.show();
+	}
+
+	private setSelected(index: number): void {
+		this.selected = index;
+		Array.from(this.popupEl.children).forEach((el, i) => el.toggleClass('is-selected', i === index));
+		(this.popupEl.children[index] as HTMLElement | undefined)?.scrollIntoView({ block: 'nearest' });
+	}
+
+	private choose(command: SlashCommand): void {
+		this.inputEl.value = `/${command.name} `;
+		this.inputEl.setSelectionRange(this.inputEl.value.length, this.inputEl.value.length);
+		this.inputEl.focus();
+		this.close();
+	}
+}
@@ -1,7 +1,7 @@
 import { EventEmitter } from 'events';
 
 export interface OpenCodeEvent {
-	type: 'step_start' | 'text' | 'tool_use' | 'step_finish' | 'error';
+	type: 'step_start' | 'text' | 'reasoning' | 'tool_use' | 'step_finish' | 'error';
 	timestamp: number;
 	sessionID: string;
 	part: OpenCodePart;
@@ -44,6 +44,12 @@ export interface ParsedTextEvent {
 	messageID: string;
 }
 
+export interface ParsedReasoningEvent {
+	type: 'reasoning';
+	content: string;
+	messageID: string;
+}
+
 export interface ParsedToolEvent {
 	type: 'tool';
 	toolName: string;
@@ -74,6 +80,7 @@ export interface ParsedErrorEvent {
 
 export type ParsedEvent =
 	| ParsedTextEvent
+	| ParsedReasoningEvent
 	| ParsedToolEvent
 	| ParsedStepEvent
 	| ParsedSessionEvent
@@ -142,6 +149,16 @@ export class StreamParser extends EventEmitter {
 				}
 				break;
 
+			case 'reasoning':
+				if (event.part.text) {
+					this.emit('event', {
+						type: 'reasoning',
+						content: event.part.text,
+						messageID: event.part.messageID
+					} as ParsedReasoningEvent);
+				}
+				break;
+
 			case 'tool_use':
 				this.handleToolEvent(event);
 				break;
@@ -169,18 +186,25 @@ export class StreamParser extends EventEmitter {
 		const callID = part.callID || part.id;
 		const state = part.state;
 
+		const previous = this.pendingTools.get(callID);
+
+		// Later updates may omit fields reported earlier for the same call
 		const toolEvent: ParsedToolEvent = {
 			type: 'tool',
-			toolName: part.tool || 'unknown',
+			toolName: part.tool || previous?.toolName || 'unknown',
 			callID,
 			status: state?.status || 'pending',
-			input: state?.input,
+			input: state?.input || previous?.input,
 			output: state?.output,
-			title: state?.title,
+			title: state?.title || previous?.title,
 			error: state?.error
 		};
 
-		this.pendingTools.set(callID, toolEvent);
+		if (toolEvent.status === 'completed' || toolEvent.status === 'error') {
+			this.pendingTools.delete(callID);
+		} else {
+			this.pendingTools.set(callID, toolEvent);
+		}
 		this.emit('event', toolEvent);
 	}
 
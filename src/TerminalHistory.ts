@@ -0,0 +1,192 @@
+import { TFile, moment, normalizePath } from 'obsidian';
+import type OpenCodePlugin from './main';
+import { TerminalHistoryData, TerminalRun } from './types';
+
+const MAX_HISTORY_FILES = 20;
+const MAX_RUNS = 10;
+const MAX_RUN_OUTPUT = 256 * 1024;
+// Output arriving within this gap is grouped under one timestamp
+const OUTPUT_GAP = 2000;
+
+/**
+ * Saved scrollback and run logs of terminals, one file per terminal in the
+ * plugin folder, so a restored terminal can show what it printed before.
+ */
+export class TerminalHistory {
+	plugin: OpenCodePlugin;
+
+	constructor(plugin: OpenCodePlugin) {
+		this.plugin = plugin;
+	}
+
+	private get folder(): string {
+		return normalizePath(`${this.plugin.app.vault.configDir}/plugins/${this.plugin.manifest.id}/terminals`);
+	}
+
+	async load(id: string): Promise<TerminalHistoryData | null> {
+		const adapter = this.plugin.app.vault.adapter;
+		const filePath = `${this.folder}/${id}.json`;
+		if (!await adapter.exists(filePath)) {
+			return null;
+		}
+		try {
+			return JSON.parse(await adapter.read(filePath));
+		} catch (error) {
+			console.error('Failed to read terminal history:', error);
+			return null;
+		}
+	}
+
+	async save(id: string, data: TerminalHistoryData): Promise<void> {
+		const adapter = this.plugin.app.vault.adapter;
+		if (!await adapter.exists(this.folder)) {
+			await adapter.mkdir(this.folder);
+		}
+		await adapter.write(`${this.folder}/${id}.json`, JSON.stringify(data));
+	}
+
+	/**
+	 * Keeps the most recently saved histories and drops the rest.
+	 */
+	async prune(): Promise<void> {
+		const adapter = this.plugin.app.vault.adapter;
+		if (!await adapter.exists(this.folder)) return;
+
+		const { files } = await adapter.list(this.folder);
+		const stats = await Promise.all(files.map(async file => ({ file, mtime: (await adapter.stat(file))?.mtime || 0 })));
+		const stale = stats.sort((a, b) => b.mtime - a.mtime).slice(MAX_HISTORY_FILES);
+		for (const { file } of stale) {
+			await adapter.remove(file);
+		}
+	}
+
+	/**
+	 * Writes the runs as a Markdown note in the export folder, with ANSI
+	 * escape sequences removed.
+	 */
+	async exportTranscript(title: string, runs: TerminalRun[]): Promise<TFile> {
+		const { vault } = this.plugin.app;
+		const folder = normalizePath(this.plugin.settings.exportFolder || '/');
+		if (folder !== '/' && !vault.getAbstractFileByPath(folder)) {
+			await vault.createFolder(folder);
+		}
+
+		const baseName = `${moment().format('YYYY-MM-DD HHmm')} ${title} transcript`.replace(/[\\/:*?"<>|#^[\]]/g, '-');
+		let filePath = normalizePath(`${folder}/${baseName}.md`);
+		let counter = 2;
+		while (vault.getAbstractFileByPath(filePath)) {
+			filePath = normalizePath(`${folder}/${baseName} ${counter}.md`);
+			counter++;
+		}
+
+		return vault.create(filePath, formatTranscript(title, runs));
+	}
+}
+
+export function createRun(model: string, folder: string): TerminalRun {
+	return { startedAt: Date.now(), model, folder, output: [] };
+}
+
+/**
+ * Adds PTY output to a run, dropping the oldest output once it grows past
+ * the cap.
+ */
+export function appendRunOutput(run: TerminalRun, text: string): void {
+	const now = Date.now();
+	const last = run.output[run.output.length - 1];
+	if (last && now - last.time < OUTPUT_GAP) {
+		last.text += text;
+	} else {
+		run.output.push({ time: now, text });
+	}
+
+	let size = run.output.reduce((sum, chunk) => sum + chunk.text.length, 0);
+	while (size > MAX_RUN_OUTPUT && run.output.length > 1) {
+		size -= run.output.shift()!.text.length;
+		run.truncated = true;
+	}
+}
+
+export function addRun(runs: TerminalRun[], run: TerminalRun): void {
+	runs.push(run);
+	if (runs.length > MAX_RUNS) {
+		runs.splice(0, runs.length - MAX_RUNS);
+	}
+}
+
+/**
+ * Plain text of terminal output. Cursor positioning becomes a line break so
+ * full-screen redraws stay readable; other escape sequences are removed.
+ */
+export function stripAnsi(text: string): string {
+	return text
+		.replace(/\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g, '')
+		.replace(/\x1b[PX^_][\s\S]*?\x1b\\/g, '')
+		.replace(/\x1b\[[0-9;?]*[Hf]/g, '\n')
+		.replace(/\x1b\[[0-9;?<>=!]*[ -/]*[@-~]/g, '')
+		.replace(/\x1b[()#][ -~]|\x1b[ -/]*[0-~]/g, '')
+		.split('\n')
+		// A carriage return rewinds the line; keep what was written last
+		.map(line => line.split('\r').filter(Boolean).pop() || '')
+		.join('\n')
+		.replace(/[\x00-\x08\x0b-\x1f\x7f]/g, '');
+}
+
+function cleanOutput(text: string): string {
+	const lines: string[] = [];
+	for (const line of stripAnsi(text).split('\n').map(l => l.trimEnd())) {
+		// Redraws repeat the same line; runs of blank lines collapse too
+		if (line === lines[lines.length - 1]) continue;
+		lines.push(line);
+	}
+	return lines.join('\n').trim();
+}
+
+export function formatTranscript(title: string, runs: TerminalRun[]): string {
+	const first = runs[0];
+	const last = runs[runs.length - 1];
+	const frontmatter = [
+		'---',
+		`title: ${JSON.stringify(title)}`,
+		`model: ${JSON.stringify(last?.model || '')}`,
+		`folder: ${JSON.stringify(last?.folder || '/')}`,
+		first ? `startedAt: ${new Date(first.startedAt).toISOString()}` : null,
+		last?.endedAt ? `endedAt: ${new Date(last.endedAt).toISOString()}` : null,
+		last?.exitCode != null ? `exitCode: ${last.exitCode}` : null,
+		'tags: [opencode, terminal]',
+		'---'
+	].filter(Boolean);
+
+	const sections = runs.map((run, index) => {
+		const parts = [
+			`## Run ${index + 1} · ${moment(run.startedAt).format('YYYY-MM-DD HH:mm:ss')} · ${run.model}`,
+			`**Folder:** ${run.folder || 'vault root'}`
+		];
+		if (run.truncated) {
+			parts.push('*(earlier output was truncated)*');
+		}
+		for (const chunk of run.output) {
+			const text = cleanOutput(chunk.text);
+			if (!text) continue;
+			parts.push(`### ${moment(chunk.time).format('HH:mm:ss')}`, fence(text));
+		}
+		if (run.endedAt) {
+			const status = run.exitCode != null ? `code ${run.exitCode}` : `signal ${run.signal || 'unknown'}`;
+			parts.push(`*Exited with ${status} at ${moment(run.endedAt).format('HH:mm:ss')}*`);
+		} else {
+			parts.push('*Still running*');
+		}
+		return parts.join('\n\n');
+	});
+
+	return `${frontmatter.join('\n')}\n\n# ${title}\n\n${sections.join('\n\n')}\n`;
+}
+
+function fence(content: string): string {
+	let longest = 0;
+	for (const run of content.match(/`+/g) || []) {
+		longest = Math.max(longest, run.length);
+	}
+	const ticks = '`'.repeat(Math.max(3, longest + 1));
+	return `${ticks}text\n${content}\n${ticks}`;
+}
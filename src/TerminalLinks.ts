@@ -0,0 +1,133 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { IBufferCellPosition, IBufferRange, ILink, ILinkProvider, Terminal } from 'xterm';
+
+export interface VaultLink {
+	file: TFile;
+	line?: number;
+	column?: number;
+}
+
+export interface VaultLinkHandlers {
+	activate: (event: MouseEvent, link: VaultLink) => void;
+	hover: (event: MouseEvent, link: VaultLink, range: IBufferRange) => void;
+	leave: () => void;
+}
+
+// A quoted path, which may contain spaces, or a run of characters that can
+// appear in a path; either may end in :line or :line:column
+const PATH_PATTERN = /(["'`])([^"'`\r\n]+?)\1(?::(\d+)(?::(\d+))?)?|[^\s"'`<>()[\]{}|,;]+/g;
+const LINE_SUFFIX = /^(.+?)(?::(\d+)(?::(\d+))?)?$/;
+
+/**
+ * Makes paths of vault files printed in the terminal clickable. Paths may be
+ * relative to the terminal's folder or the vault root, or absolute inside
+ * the vault; text that names no file in the vault is left alone.
+ */
+export class VaultLinkProvider implements ILinkProvider {
+	private app: App;
+	private terminal: Terminal;
+	private getFolder: () => string;
+	private handlers: VaultLinkHandlers;
+
+	constructor(app: App, terminal: Terminal, getFolder: () => string, handlers: VaultLinkHandlers) {
+		this.app = app;
+		this.terminal = terminal;
+		this.getFolder = getFolder;
+		this.handlers = handlers;
+	}
+
+	provideLinks(bufferLineNumber: number, callback: (links: ILink[] | undefined) => void): void {
+		const { text, cells } = this.readWrappedLine(bufferLineNumber);
+		const links: ILink[] = [];
+
+		for (const match of text.matchAll(PATH_PATTERN)) {
+			let linkText = match[0];
+			let raw: string;
+			let line: string | undefined;
+			let column: string | undefined;
+			if (match[1]) {
+				[, , raw, line, column] = match;
+			} else {
+				// Sentence punctuation and a dangling colon are not part of the path
+				linkText = linkText.replace(/[.:]+$/, '');
+				const parts = linkText.match(LINE_SUFFIX);
+				if (!parts) continue;
+				[, raw, line, column] = parts;
+			}
+
+			const file = this.resolve(raw);
+			if (!file) continue;
+
+			const start = match.index!;
+			const range = { start: cells[start], end: cells[start + linkText.length - 1] };
+			if (range.start.y > bufferLineNumber || range.end.y < bufferLineNumber) continue;
+
+			const link: VaultLink = {
+				file,
+				line: line ? parseInt(line, 10) : undefined,
+				column: column ? parseInt(column, 10) : undefined
+			};
+			links.push({
+				range,
+				text: linkText,
+				activate: (event) => this.handlers.activate(event, link),
+				hover: (event) => this.handlers.hover(event, link, range),
+				leave: () => this.handlers.leave()
+			});
+		}
+
+		callback(links.length > 0 ? links : undefined);
+	}
+
+	/**
+	 * Text of the logical line around a buffer line, joining rows the
+	 * terminal wrapped, with the 1-based cell of each character.
+	 */
+	private readWrappedLine(bufferLineNumber: number): { text: string; cells: IBufferCellPosition[] } {
+		const buffer = this.terminal.buffer.active;
+		let first = bufferLineNumber - 1;
+		while (first > 0 && buffer.getLine(first)?.isWrapped) {
+			first--;
+		}
+		let last = bufferLineNumber - 1;
+		while (buffer.getLine(last + 1)?.isWrapped) {
+			last++;
+		}
+
+		let text = '';
+		const cells: IBufferCellPosition[] = [];
+		for (let y = first; y <= last; y++) {
+			const row = buffer.getLine(y);
+			if (!row) break;
+			for (let x = 0; x < row.length; x++) {
+				const cell = row.getCell(x);
+				// The second half of a wide character has no text of its own
+				if (!cell || cell.getWidth() === 0) continue;
+				const chars = cell.getChars() || ' ';
+				for (let i = 0; i < chars.length; i++) {
+					cells.push({ x: x + 1, y: y + 1 });
+				}
+				text += chars;
+			}
+		}
+		return { text, cells };
+	}
+
+	private resolve(raw: string): TFile | null {
+		let filePath = raw.replace(/\\/g, '/');
+		if (filePath.startsWith('/') || /^[A-Za-z]:\//.test(filePath)) {
+			const basePath = ((this.app.vault.adapter as any).getBasePath() as string).replace(/\\/g, '/');
+			if (!filePath.startsWith(`${basePath}/`)) return null;
+			filePath = filePath.slice(basePath.length + 1);
+		} else {
+			filePath = filePath.replace(/^\.\//, '');
+			const folder = this.getFolder();
+			if (folder) {
+				const file = this.app.vault.getAbstractFileByPath(normalizePath(`${folder}/${filePath}`));
+				if (file instanceof TFile) return file;
+			}
+		}
+		const file = this.app.vault.getAbstractFileByPath(normalizePath(filePath));
+		return file instanceof TFile ? file : null;
+	}
+}
@@ -0,0 +1,102 @@
+import { App, Modal, Setting, TFolder } from 'obsidian';
+import type OpenCodePlugin from './main';
+import { TerminalState } from './types';
+
+/**
+ * Title, model, working folder and session sharing of a terminal, asked
+ * for when one is created or reconfigured.
+ */
+export class TerminalSetupModal extends Modal {
+	plugin: OpenCodePlugin;
+	private state: TerminalState;
+	private submitText: string;
+	private onSubmit: (state: TerminalState) => void;
+
+	constructor(app: App, plugin: OpenCodePlugin, state: TerminalState, submitText: string, onSubmit: (state: TerminalState) => void) {
+		super(app);
+		this.plugin = plugin;
+		this.state = { ...state };
+		this.submitText = submitText;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.titleEl.setText('OpenCode Terminal');
+
+		new Setting(contentEl)
+			.setName('Title')
+			.addText(text => text
+				.setValue(this.state.title || '')
+				.onChange(value => {
+					this.state.title = value.trim();
+				}));
+
+		const currentModel = this.plugin.processManager?.getModelArg() || this.plugin.settings.model;
+		const models = Array.from(new Set([...this.plugin.settings.favoriteModels, this.state.model].filter(Boolean))) as string[];
+		let modelText: HTMLInputElement;
+		new Setting(contentEl)
+			.setName('Model')
+			.setDesc('Pick a favorite or enter provider/model. Empty follows the plugin model.')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', `Plugin model (${currentModel})`);
+				models.forEach(model => dropdown.addOption(model, model));
+				dropdown
+					.setValue(this.state.model || '')
+					.onChange(value => {
+						this.state.model = value;
+						modelText.value = value;
+					});
+			})
+			.addText(text => {
+				modelText = text.inputEl;
+				text.setPlaceholder('provider/model')
+					.setValue(this.state.model || '')
+					.onChange(value => {
+						this.state.model = value.trim();
+					});
+			});
+
+		new Setting(contentEl)
+			.setName('Working Folder')
+			.setDesc('Folder OpenCode runs in')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Vault root');
+				this.app.vault.getAllLoadedFiles()
+					.filter((file): file is TFolder => file instanceof TFolder && !file.isRoot())
+					.map(folder => folder.path)
+					.sort()
+					.forEach(path => dropdown.addOption(path, path));
+				dropdown
+					.setValue(this.state.folder || '')
+					.onChange(value => {
+						this.state.folder = value;
+					});
+			});
+
+		new Setting(contentEl)
+			.setName('Continue Chat Session')
+			.setDesc('Start on the session shared with the chat view instead of a new one')
+			.addToggle(toggle => toggle
+				.setValue(this.state.shareSession !== false)
+				.onChange(value => {
+					this.state.shareSession = value;
+				}));
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText(this.submitText)
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.onSubmit(this.state);
+				}));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
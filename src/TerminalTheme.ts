@@ -0,0 +1,120 @@
+import { ITheme } from 'xterm';
+import { OpenCodeSettings } from './types';
+
+const DEFAULT_FONT_FAMILY = 'Menlo, Monaco, "Courier New", monospace';
+
+export const DARK_TERMINAL_THEME: ITheme = {
+	background: '#1e1e1e',
+	foreground: '#f0f0f0',
+	cursor: '#ffffff',
+	cursorAccent: '#1e1e1e',
+	selectionBackground: '#5da5f533',
+	black: '#1e1e1e',
+	red: '#f14c4c',
+	green: '#23d18b',
+	yellow: '#f5f543',
+	blue: '#3b8eea',
+	magenta: '#d670d6',
+	cyan: '#29b8db',
+	white: '#e5e5e5',
+	brightBlack: '#767676',
+	brightRed: '#f14c4c',
+	brightGreen: '#23d18b',
+	brightYellow: '#f5f543',
+	brightBlue: '#3b8eea',
+	brightMagenta: '#d670d6',
+	brightCyan: '#29b8db',
+	brightWhite: '#ffffff'
+};
+
+export const LIGHT_TERMINAL_THEME: ITheme = {
+	background: '#ffffff',
+	foreground: '#333333',
+	cursor: '#333333',
+	cursorAccent: '#ffffff',
+	selectionBackground: '#3b8eea33',
+	black: '#000000',
+	red: '#cd3131',
+	green: '#00bc00',
+	yellow: '#949800',
+	blue: '#0451a5',
+	magenta: '#bc05bc',
+	cyan: '#0598bc',
+	white: '#555555',
+	brightBlack: '#666666',
+	brightRed: '#cd3131',
+	brightGreen: '#14ce14',
+	brightYellow: '#b5ba00',
+	brightBlue: '#0451a5',
+	brightMagenta: '#bc05bc',
+	brightCyan: '#0598bc',
+	brightWhite: '#a5a5a5'
+};
+
+// xterm color keys and the Obsidian variables they follow in adaptive mode
+const ADAPTIVE_COLORS: [keyof ITheme, string][] = [
+	['background', '--background-primary'],
+	['foreground', '--text-normal'],
+	['cursor', '--text-accent'],
+	['cursorAccent', '--background-primary'],
+	['selectionBackground', '--text-selection'],
+	['red', '--color-red'],
+	['green', '--color-green'],
+	['yellow', '--color-yellow'],
+	['blue', '--color-blue'],
+	['magenta', '--color-purple'],
+	['cyan', '--color-cyan'],
+	['brightBlack', '--text-faint'],
+	['brightRed', '--color-red'],
+	['brightGreen', '--color-green'],
+	['brightYellow', '--color-yellow'],
+	['brightBlue', '--color-blue'],
+	['brightMagenta', '--color-purple'],
+	['brightCyan', '--color-cyan']
+];
+
+/**
+ * Colors for the terminal. Adaptive mode reads the current Obsidian theme,
+ * starting from the matching preset for anything a theme leaves unset.
+ */
+export function getTerminalTheme(settings: OpenCodeSettings): ITheme {
+	if (settings.theme === 'dark') return DARK_TERMINAL_THEME;
+	if (settings.theme === 'light') return LIGHT_TERMINAL_THEME;
+
+	const isDark = document.body.hasClass('theme-dark');
+	const theme: ITheme = { ...(isDark ? DARK_TERMINAL_THEME : LIGHT_TERMINAL_THEME) };
+	for (const [key, variable] of ADAPTIVE_COLORS) {
+		const color = resolveVariable('color', variable);
+		if (color) {
+			(theme as Record<string, string>)[key] = color;
+		}
+	}
+	return theme;
+}
+
+/**
+ * The configured font family, or Obsidian's monospace font when none is set.
+ */
+export function getTerminalFontFamily(settings: OpenCodeSettings): string {
+	if (settings.terminalFontFamily.trim()) {
+		return settings.terminalFontFamily;
+	}
+	return resolveVariable('fontFamily', '--font-monospace') || DEFAULT_FONT_FAMILY;
+}
+
+/**
+ * Computed value of a style property set to a CSS variable. Variables may
+ * hold var() or calc() expressions, so the browser resolves them to values
+ * xterm can parse, e.g. rgb() colors.
+ */
+function resolveVariable(property: 'color' | 'fontFamily', variable: string): string | null {
+	if (!getComputedStyle(document.body).getPropertyValue(variable).trim()) {
+		return null;
+	}
+	const probe = document.body.createDiv();
+	probe.style.display = 'none';
+	probe.style[property] = `var(${variable})`;
+	const value = getComputedStyle(probe)[property];
+	probe.remove();
+	return value || null;
+}
@@ -1,22 +1,41 @@
-import { ItemView, WorkspaceLeaf, Menu } from 'obsidian';
-import { Terminal } from 'xterm';
+import { ItemView, WorkspaceLeaf, Menu, ViewStateResult, TFolder, Notice, debounce, moment, HoverParent, HoverPopover, Keymap, MarkdownView } from 'obsidian';
+import { IBuffer, IBufferRange, Terminal } from 'xterm';
 import { FitAddon } from 'xterm-addon-fit';
 import { WebLinksAddon } from 'xterm-addon-web-links';
-import { spawn, ChildProcess } from 'child_process';
 import type OpenCodePlugin from './main';
+import { TerminalHistoryData, TerminalRun, TerminalState } from './types';
+import { addRun, appendRunOutput, createRun } from './TerminalHistory';
+import { PtyBridge, PtyExit } from './PtyBridge';
+import { getTerminalFontFamily, getTerminalTheme } from './TerminalTheme';
+import { VaultLink, VaultLinkProvider } from './TerminalLinks';
 import * as path from 'path';
 
 export const VIEW_TYPE_OPENCODE_TERMINAL = 'opencode-terminal-view';
 
-export class TerminalView extends ItemView {
+const MAX_SCROLLBACK_LINES = 5000;
+
+export class TerminalView extends ItemView implements HoverParent {
     plugin: OpenCodePlugin;
+    hoverPopover: HoverPopover | null = null;
     private terminal: Terminal;
     private fitAddon: FitAddon;
-    private ptyProcess: ChildProcess | null = null;
+    private bridge: PtyBridge | null = null;
     private terminalContainer: HTMLElement;
     private isDisposed: boolean = false;
     private resizeObserver: ResizeObserver | null = null;
     private layoutChangeHandler: () => void;
+    private modelChangeHandler: (model: string) => void;
+    private activeSessionID: string | null = null;
+    private state: TerminalState = {};
+    private sessionStarted: boolean = false;
+    private history: TerminalHistoryData = { savedAt: 0, scrollback: [], runs: [] };
+    // Scrollback from before a restart, shown once above the new session
+    private pendingScrollback: TerminalHistoryData | null = null;
+    private currentRun: TerminalRun | null = null;
+    private saveHistorySoon = debounce(() => this.saveHistory(), 10000);
+    // Covers the hovered path so the page preview has an element to sit next to
+    private linkAnchor: HTMLElement;
+    private linkLeaveTimeoutId: ReturnType<typeof setTimeout> | null = null;
 
     constructor(leaf: WorkspaceLeaf, plugin: OpenCodePlugin) {
         super(leaf);
@@ -28,7 +47,57 @@ export class TerminalView extends ItemView {
     }
 
     getDisplayText(): string {
-        return 'OpenCode Terminal';
+        return this.state.title || 'OpenCode Terminal';
+    }
+
+    getState(): Record<string, unknown> {
+        return { ...super.getState(), ...this.state };
+    }
+
+    /**
+     * Restored leaves get their state here after onOpen, so the session
+     * starts once the model and folder are known.
+     */
+    async setState(state: TerminalState, result: ViewStateResult): Promise<void> {
+        this.state = {
+            id: state?.id || `term-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+            title: state?.title,
+            model: state?.model,
+            folder: state?.folder,
+            shareSession: state?.shareSession
+        };
+        await super.setState(state, result);
+        (this.leaf as any).updateHeader?.();
+
+        if (!this.sessionStarted && !this.isDisposed) {
+            this.sessionStarted = true;
+            const saved = await this.plugin.terminalHistory.load(this.state.id!);
+            if (saved) {
+                this.history.runs = saved.runs || [];
+                this.pendingScrollback = saved.scrollback?.length ? saved : null;
+            }
+            await this.startSession();
+        }
+    }
+
+    getTerminalState(): TerminalState {
+        return { ...this.state };
+    }
+
+    rename(title: string): void {
+        this.state.title = title;
+        (this.leaf as any).updateHeader?.();
+        this.app.workspace.requestSaveLayout();
+    }
+
+    /**
+     * Applies a new model, folder or session choice and restarts on it.
+     */
+    async configure(state: TerminalState): Promise<void> {
+        this.state = { ...state, id: this.state.id };
+        (this.leaf as any).updateHeader?.();
+        this.app.workspace.requestSaveLayout();
+        await this.restartSession();
     }
 
     getIcon(): string {
@@ -52,6 +121,26 @@ export class TerminalView extends ItemView {
         });
         restartBtn.onclick = () => this.restartSession();
 
+        const chatBtn = toolbar.createEl('button', {
+            text: 'Continue in Chat'
+        });
+        chatBtn.onclick = () => this.plugin.continueInChat();
+
+        const newBtn = toolbar.createEl('button', {
+            text: 'New'
+        });
+        newBtn.onclick = () => this.plugin.newTerminal();
+
+        const configureBtn = toolbar.createEl('button', {
+            text: 'Configure'
+        });
+        configureBtn.onclick = () => this.plugin.configureTerminal(this);
+
+        const transcriptBtn = toolbar.createEl('button', {
+            text: 'Save Transcript'
+        });
+        transcriptBtn.onclick = () => this.saveTranscript();
+
         const settingsBtn = toolbar.createEl('button', {
             cls: 'clickable-icon'
         });
@@ -67,22 +156,21 @@ export class TerminalView extends ItemView {
         this.terminal = new Terminal({
             cursorBlink: true,
             convertEol: true,
-            fontFamily: 'Menlo, Monaco, "Courier New", monospace',
-            fontSize: 12,
-            allowProposedApi: true,
-            theme: {
-                background: '#1e1e1e',
-                foreground: '#f0f0f0',
-                cursor: '#ffffff',
-                selectionBackground: '#5da5f533'
-            }
+            allowProposedApi: true
         });
+        this.applyAppearance();
 
         this.fitAddon = new FitAddon();
         this.terminal.loadAddon(this.fitAddon);
         this.terminal.loadAddon(new WebLinksAddon());
+        this.terminal.registerLinkProvider(new VaultLinkProvider(this.app, this.terminal, () => this.state.folder || '', {
+            activate: (event, link) => this.openVaultLink(event, link),
+            hover: (event, link, range) => this.previewVaultLink(event, link, range),
+            leave: () => this.hideLinkPreview()
+        }));
 
         this.terminal.open(this.terminalContainer);
+        this.linkAnchor = container.createDiv({ cls: 'opencode-terminal-link-anchor' });
 
         this.resizeObserver = new ResizeObserver(() => {
             if (!this.isDisposed) {
@@ -101,26 +189,113 @@ export class TerminalView extends ItemView {
 
         this.performInitialFit();
 
+        // Adaptive colors follow Obsidian theme and CSS snippet changes
+        this.registerEvent(this.app.workspace.on('css-change', () => {
+            if (!this.isDisposed) {
+                this.applyAppearance();
+            }
+        }));
+
+        this.modelChangeHandler = (model: string) => {
+            // Terminals with a model of their own ignore the plugin model
+            if (this.state.model) return;
+            this.terminal.writeln(`\r\n[OpenCode] Model changed to ${model}. Restart the terminal to apply.`);
+        };
+        this.plugin.processManager?.on('model-change', this.modelChangeHandler);
+
         // Handle data input
         this.terminal.onData(data => {
-            if (this.ptyProcess && this.ptyProcess.stdin) {
-                this.ptyProcess.stdin.write(data);
-            }
+            this.bridge?.write(data);
         });
 
-        // Start session
-        await this.startSession();
     }
 
-    private notifyResize() {
-        if (this.ptyProcess && (this.ptyProcess as any).stdio && (this.ptyProcess as any).stdio[3]) {
-            const { cols, rows } = this.terminal;
-            try {
-                (this.ptyProcess as any).stdio[3].write(`R:${rows}:${cols}\n`);
-            } catch (e) {
-                // Ignore pipe errors
-            }
+    /**
+     * Applies the theme and font settings, refitting since the cell size
+     * may have changed.
+     */
+    applyAppearance(): void {
+        if (!this.terminal || this.isDisposed) return;
+        const { settings } = this.plugin;
+        const theme = getTerminalTheme(settings);
+        this.terminal.options.theme = theme;
+        this.terminal.options.fontFamily = getTerminalFontFamily(settings);
+        this.terminal.options.fontSize = settings.terminalFontSize;
+        this.terminal.options.lineHeight = settings.terminalLineHeight;
+        // The container and wrapper fill the space around the rows with it
+        (this.containerEl.children[1] as HTMLElement).style.setProperty('--opencode-terminal-background', theme.background || '');
+        this.debouncedFit();
+    }
+
+    /**
+     * Opens a file printed in the terminal, at its line when one was given.
+     * Files Obsidian has no view for open in the default app.
+     */
+    private async openVaultLink(event: MouseEvent, link: VaultLink): Promise<void> {
+        const { file, line, column } = link;
+        // @ts-ignore
+        if (!this.app.viewRegistry.isExtensionRegistered(file.extension)) {
+            // @ts-ignore
+            this.app.openWithDefaultApp(file.path);
+            return;
         }
+
+        const leaf = this.app.workspace.getLeaf(Keymap.isModEvent(event));
+        await leaf.openFile(file, line ? { eState: { line: line - 1 } } : undefined);
+        if (line && leaf.view instanceof MarkdownView) {
+            const position = { line: line - 1, ch: Math.max(0, (column || 1) - 1) };
+            leaf.view.editor.setCursor(position);
+            leaf.view.editor.scrollIntoView({ from: position, to: position }, true);
+        }
+    }
+
+    private previewVaultLink(event: MouseEvent, link: VaultLink, range: IBufferRange): void {
+        if (this.linkLeaveTimeoutId) {
+            clearTimeout(this.linkLeaveTimeoutId);
+            this.linkLeaveTimeoutId = null;
+        }
+
+        // Place the anchor over the first row of the link
+        const screen = this.terminalContainer.querySelector('.xterm-screen');
+        if (!screen) return;
+        const rect = screen.getBoundingClientRect();
+        const cellWidth = rect.width / this.terminal.cols;
+        const cellHeight = rect.height / this.terminal.rows;
+        const row = range.start.y - 1 - this.terminal.buffer.active.viewportY;
+        const endX = range.end.y === range.start.y ? range.end.x : this.terminal.cols;
+        this.linkAnchor.style.left = `${rect.left + (range.start.x - 1) * cellWidth}px`;
+        this.linkAnchor.style.top = `${rect.top + row * cellHeight}px`;
+        this.linkAnchor.style.width = `${(endX - range.start.x + 1) * cellWidth}px`;
+        this.linkAnchor.style.height = `${cellHeight}px`;
+
+        this.app.workspace.trigger('hover-link', {
+            event,
+            source: VIEW_TYPE_OPENCODE_TERMINAL,
+            hoverParent: this,
+            targetEl: this.linkAnchor,
+            linktext: link.file.path,
+            sourcePath: '',
+            state: link.line ? { scroll: link.line - 1 } : undefined
+        });
+    }
+
+    /**
+     * Hides the preview shortly after the pointer leaves the link, unless it
+     * moved onto the preview itself.
+     */
+    private hideLinkPreview(): void {
+        this.linkLeaveTimeoutId = setTimeout(() => {
+            this.linkLeaveTimeoutId = null;
+            if (this.hoverPopover && !this.hoverPopover.hoverEl.matches(':hover')) {
+                // @ts-ignore
+                this.hoverPopover.hide();
+            }
+        }, 300);
+    }
+
+    private notifyResize() {
+        const { cols, rows } = this.terminal;
+        this.bridge?.resize(rows, cols);
     }
 
     private fitTimeoutId: ReturnType<typeof setTimeout> | null = null;
@@ -162,12 +337,17 @@ export class TerminalView extends ItemView {
 
     async startSession(): Promise<void> {
         this.terminal.clear();
+        if (this.pendingScrollback) {
+            this.writeScrollback(this.pendingScrollback);
+            this.pendingScrollback = null;
+        }
         this.terminal.writeln('Initializing OpenCode Interactive Terminal...');
 
         const opencodePath = await this.plugin.processManager?.findOpenCodePath() || 'opencode';
-        const model = this.plugin.settings.model.includes('/')
+        const model = this.state.model || (this.plugin.settings.model.includes('/')
             ? this.plugin.settings.model
-            : `${this.plugin.settings.provider}/${this.plugin.settings.model}`;
+            : `${this.plugin.settings.provider}/${this.plugin.settings.model}`);
+        const cwd = this.getWorkingDirectory();
 
         try {
             const env = { ...process.env };
@@ -181,71 +361,52 @@ export class TerminalView extends ItemView {
             env.COLORTERM = 'truecolor';
             env.LANG = 'en_US.UTF-8';
 
-            // Set initial rows/cols for the bridge
-            const { cols, rows } = this.terminal;
-            env.ROWS = rows.toString();
-            env.COLS = cols.toString();
-
             const args = ['-m', model];
 
-            if (process.platform === 'win32') {
-                this.ptyProcess = spawn(opencodePath, args, {
-                    cwd: (this.app.vault.adapter as any).getBasePath(),
-                    env: env,
-                    shell: true
-                });
-            } else {
-                // Fix: Properly formatted Python bridge using exec() to avoid semicolon SyntaxErrors
-                const pythonCode = `
-import os,sys,pty,select,array,fcntl,termios
-m,p_v=pty.openpty()
-r,c=os.environ.get('ROWS','24'),os.environ.get('COLS','80')
-fcntl.ioctl(m,termios.TIOCSWINSZ,array.array('h',[int(r),int(c),0,0]))
-if os.fork()==0:
- os.close(m);os.setsid();os.dup2(p_v,0);os.dup2(p_v,1);os.dup2(p_v,2)
- try:os.execvp(sys.argv[1],sys.argv[1:])
- except:os._exit(1)
-os.close(p_v)
-while True:
- rdk,_,_=select.select([m,0,3],[],[])
- if m in rdk:
-  try:
-   d=os.read(m,4096)
-   if not d:break
-   os.write(sys.stdout.buffer.fileno(),d)
-  except:break
- if 0 in rdk:
-  try:
-   d=os.read(0,4096)
-   if not d:break
-   os.write(m,d)
-  except:break
- if 3 in rdk:
-  try:
-   l=os.read(3,1024).decode().strip()
-   if l.startswith('R:'):
-    _,rs,cs=l.split(':');fcntl.ioctl(m,termios.TIOCSWINSZ,array.array('h',[int(rs),int(cs),0,0]))
-  except:pass
-`.trim();
-
-                this.ptyProcess = spawn('python3', ['-c', pythonCode, opencodePath, ...args], {
-                    cwd: (this.app.vault.adapter as any).getBasePath(),
-                    env: env,
-                    stdio: ['pipe', 'pipe', 'pipe', 'pipe']
-                });
+            // Continue the session shared with the chat view, if any
+            this.activeSessionID = this.state.shareSession !== false
+                ? this.plugin.processManager?.getState().sessionID || null
+                : null;
+            if (this.activeSessionID) {
+                args.push('-s', this.activeSessionID);
             }
 
-            this.ptyProcess.stdout?.on('data', (data) => this.terminal.write(data));
-            this.ptyProcess.stderr?.on('data', (data) => this.terminal.write(data));
+            const { cols, rows } = this.terminal;
+            const bridge = new PtyBridge({ command: opencodePath, args, cwd, env, rows, cols });
+            this.bridge = bridge;
+
+            const run = createRun(model, this.state.folder || '');
+            addRun(this.history.runs, run);
+            this.currentRun = run;
+
+            bridge.on('data', (data: Buffer) => {
+                if (!this.isDisposed) {
+                    this.terminal.write(data);
+                }
+                appendRunOutput(run, data.toString());
+                this.saveHistorySoon();
+            });
 
-            this.ptyProcess.on('error', (err) => {
+            bridge.on('error', (err: Error) => {
+                if (this.isDisposed || this.bridge !== bridge) return;
                 this.terminal.writeln(`\r\n[Fatal Error]: ${err.message}`);
             });
 
-            this.ptyProcess.on('exit', (code, signal) => {
+            bridge.on('exit', ({ code, signal }: PtyExit) => {
+                run.endedAt = Date.now();
+                run.exitCode = code;
+                run.signal = signal;
+                if (this.isDisposed) {
+                    // Closing the view stopped it; record how it ended
+                    this.saveHistory();
+                    return;
+                }
+                if (this.bridge !== bridge) return;
                 this.terminal.writeln(`\r\n\r\n--- Session Ended (Code: ${code}, Signal: ${signal}) ---`);
+                this.saveHistorySoon();
             });
 
+            bridge.start();
             this.terminal.focus();
 
         } catch (e) {
@@ -253,20 +414,124 @@ while True:
         }
     }
 
-    async restartSession(): Promise<void> {
-        if (this.ptyProcess) {
-            this.ptyProcess.kill();
-            this.ptyProcess = null;
+    /**
+     * Shows the saved lines dimmed between markers, so they read as history
+     * rather than output of the new session.
+     */
+    private writeScrollback(saved: TerminalHistoryData): void {
+        const time = moment(saved.savedAt).format('YYYY-MM-DD HH:mm');
+        this.terminal.writeln(`\x1b[2m── History from ${time} ──`);
+        for (const line of saved.scrollback) {
+            this.terminal.writeln(line);
+        }
+        this.terminal.writeln('── End of history ──\x1b[0m\r\n');
+    }
+
+    /**
+     * Plain-text lines of the terminal: the normal buffer, plus the screen
+     * of a full-screen app if one is showing.
+     */
+    private serializeScrollback(): string[] {
+        const lines: string[] = [];
+        const collect = (buffer: IBuffer) => {
+            for (let i = 0; i < buffer.length; i++) {
+                lines.push(buffer.getLine(i)?.translateToString(true) ?? '');
+            }
+        };
+        collect(this.terminal.buffer.normal);
+        if (this.terminal.buffer.active.type === 'alternate') {
+            collect(this.terminal.buffer.active);
+        }
+        while (lines.length > 0 && !lines[lines.length - 1].trim()) {
+            lines.pop();
+        }
+        return lines.slice(-MAX_SCROLLBACK_LINES);
+    }
+
+    private async saveHistory(): Promise<void> {
+        if (!this.state.id) return;
+        if (!this.isDisposed) {
+            this.history.scrollback = this.serializeScrollback();
+        }
+        this.history.savedAt = Date.now();
+        try {
+            await this.plugin.terminalHistory.save(this.state.id, this.history);
+        } catch (error) {
+            console.error('Failed to save terminal history:', error);
         }
+    }
+
+    async saveTranscript(): Promise<void> {
+        const runs = this.history.runs.filter(run => run.output.length > 0);
+        if (runs.length === 0) {
+            new Notice('Nothing to save yet');
+            return;
+        }
+        try {
+            const file = await this.plugin.terminalHistory.exportTranscript(this.getDisplayText(), runs);
+            new Notice(`Saved transcript to ${file.path}`);
+            await this.app.workspace.getLeaf(true).openFile(file);
+        } catch (error) {
+            new Notice(`Failed to save transcript: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    private getWorkingDirectory(): string {
+        const basePath = (this.app.vault.adapter as any).getBasePath();
+        if (!this.state.folder) {
+            return basePath;
+        }
+        if (!(this.app.vault.getAbstractFileByPath(this.state.folder) instanceof TFolder)) {
+            this.terminal.writeln(`[OpenCode] Folder "${this.state.folder}" not found, using the vault root.`);
+            return basePath;
+        }
+        return path.join(basePath, this.state.folder);
+    }
+
+    async restartSession(): Promise<void> {
+        const bridge = this.bridge;
+        this.bridge = null;
+        // Wait for the old process group to go so two agents never share the terminal
+        await bridge?.stop();
         await this.startSession();
     }
 
+    /**
+     * Sends SIGINT to the agent, as Ctrl-C typed into the terminal does.
+     */
+    interrupt(): void {
+        this.bridge?.signal('SIGINT');
+    }
+
+    /**
+     * Restarts the terminal on the shared session unless it is already running it.
+     */
+    async continueSession(): Promise<void> {
+        const sessionID = this.plugin.processManager?.getState().sessionID || null;
+        if (this.state.shareSession === false) {
+            this.state.shareSession = true;
+            this.app.workspace.requestSaveLayout();
+        } else if (this.bridge?.isRunning && sessionID === this.activeSessionID) {
+            this.terminal.focus();
+            return;
+        }
+        await this.restartSession();
+    }
+
     async onClose(): Promise<void> {
         this.isDisposed = true;
+
+        if (this.modelChangeHandler) {
+            this.plugin.processManager?.off('model-change', this.modelChangeHandler);
+        }
         
         if (this.fitTimeoutId) {
             clearTimeout(this.fitTimeoutId);
         }
+
+        if (this.linkLeaveTimeoutId) {
+            clearTimeout(this.linkLeaveTimeoutId);
+        }
         
         if (this.resizeObserver) {
             this.resizeObserver.disconnect();
@@ -277,9 +542,11 @@ while True:
             this.app.workspace.off('resize', this.layoutChangeHandler);
         }
         
-        if (this.ptyProcess) {
-            this.ptyProcess.kill();
-        }
+        // Serialize while the buffer still exists, then write it out
+        this.saveHistorySoon.cancel();
+        this.history.scrollback = this.serializeScrollback();
+        this.bridge?.stop();
         this.terminal.dispose();
+        await this.saveHistory();
     }
 }
@@ -0,0 +1,207 @@
+import { ItemView, WorkspaceLeaf, debounce, moment } from 'obsidian';
+import type OpenCodePlugin from './main';
+import { ConversationUsage, UsageRecord } from './types';
+
+export const VIEW_TYPE_OPENCODE_USAGE = 'opencode-usage-view';
+
+type UsageRange = 'month' | '30days' | 'all';
+
+interface UsageRow extends ConversationUsage {
+	label: string;
+	steps: number;
+}
+
+const RANGES: Record<UsageRange, string> = {
+	month: 'This month',
+	'30days': 'Last 30 days',
+	all: 'All time'
+};
+
+/**
+ * Token and cost totals from the per-step usage recorded on conversations,
+ * grouped by day, model, provider and conversation.
+ */
+export class UsageView extends ItemView {
+	plugin: OpenCodePlugin;
+	private range: UsageRange = 'month';
+	private bodyEl: HTMLElement;
+	private refreshOnStep = debounce(() => this.refresh(), 2000, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: OpenCodePlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_OPENCODE_USAGE;
+	}
+
+	getDisplayText(): string {
+		return 'OpenCode Usage';
+	}
+
+	getIcon(): string {
+		return 'bar-chart-2';
+	}
+
+	async onOpen(): Promise<void> {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.addClass('opencode-usage-container');
+
+		const header = container.createDiv({ cls: 'opencode-usage-header' });
+		header.createEl('h3', { text: '📊 Usage' });
+
+		const rangeSelect = header.createEl('select', { cls: 'dropdown' });
+		(Object.keys(RANGES) as UsageRange[]).forEach(range => {
+			rangeSelect.createEl('option', { value: range, text: RANGES[range] });
+		});
+		rangeSelect.value = this.range;
+		rangeSelect.addEventListener('change', () => {
+			this.range = rangeSelect.value as UsageRange;
+			this.refresh();
+		});
+
+		const refreshBtn = header.createEl('button', {
+			cls: 'opencode-btn opencode-btn-icon',
+			attr: { title: 'Refresh' }
+		});
+		refreshBtn.innerHTML = '🔄';
+		refreshBtn.addEventListener('click', () => this.refresh());
+
+		this.bodyEl = container.createDiv({ cls: 'opencode-usage-body' });
+		this.plugin.processManager?.on('usage', this.refreshOnStep);
+
+		await this.refresh();
+	}
+
+	async refresh(): Promise<void> {
+		const since = this.getRangeStart();
+		const monthStart = moment().startOf('month').valueOf();
+		const entries = await this.plugin.conversationStore.getUsageRecords(Math.min(since, monthStart));
+
+		const inRange = entries.map(entry => ({
+			...entry,
+			records: entry.records.filter(r => r.timestamp >= since)
+		}));
+		const records = inRange.flatMap(entry => entry.records);
+		const monthCost = entries
+			.flatMap(entry => entry.records)
+			.filter(r => r.timestamp >= monthStart)
+			.reduce((sum, r) => sum + r.cost, 0);
+
+		this.bodyEl.empty();
+		this.renderSummary(records, monthCost);
+
+		if (records.length === 0) {
+			this.bodyEl.createEl('p', { text: 'No usage recorded in this period.', cls: 'setting-item-description' });
+			return;
+		}
+
+		this.renderTable('By day', this.groupBy(records, r => moment(r.timestamp).format('YYYY-MM-DD'))
+			.sort((a, b) => b.label.localeCompare(a.label)));
+		this.renderTable('By model', this.groupBy(records, r => r.model || 'unknown'));
+		this.renderTable('By provider', this.groupBy(records, r => (r.model || 'unknown').split('/')[0]));
+
+		const byConversation = inRange
+			.filter(entry => entry.records.length > 0)
+			.map(entry => this.sum(entry.title, entry.records));
+		this.renderTable('By conversation', byConversation.sort((a, b) => b.cost - a.cost));
+	}
+
+	private getRangeStart(): number {
+		switch (this.range) {
+			case 'month':
+				return moment().startOf('month').valueOf();
+			case '30days':
+				return moment().subtract(30, 'days').startOf('day').valueOf();
+			default:
+				return 0;
+		}
+	}
+
+	private renderSummary(records: UsageRecord[], monthCost: number): void {
+		const total = this.sum('Total', records);
+		const summaryEl = this.bodyEl.createDiv({ cls: 'opencode-usage-summary' });
+
+		const addCard = (label: string, value: string, cls?: string) => {
+			const card = summaryEl.createDiv({ cls: `opencode-usage-card${cls ? ` ${cls}` : ''}` });
+			card.createDiv({ text: value, cls: 'opencode-usage-card-value' });
+			card.createDiv({ text: label, cls: 'opencode-usage-card-label' });
+		};
+
+		addCard('Cost', this.formatCost(total.cost));
+		addCard('Input tokens', this.formatTokens(total.input));
+		addCard('Output tokens', this.formatTokens(total.output + total.reasoning));
+		addCard('Cache read', this.formatTokens(total.cacheRead));
+
+		const budget = this.plugin.settings.monthlyBudget;
+		if (budget > 0) {
+			const ratio = monthCost / budget;
+			addCard(
+				'Monthly budget',
+				`${this.formatCost(monthCost)} / ${this.formatCost(budget)}`,
+				ratio >= 1 ? 'is-over-budget' : ratio >= 0.8 ? 'is-near-budget' : undefined
+			);
+		}
+	}
+
+	private renderTable(title: string, rows: UsageRow[]): void {
+		this.bodyEl.createEl('h4', { text: title });
+		const table = this.bodyEl.createEl('table', { cls: 'opencode-usage-table' });
+		const headRow = table.createEl('thead').createEl('tr');
+		['', 'Steps', 'Input', 'Output', 'Reasoning', 'Cache R/W', 'Cost'].forEach(text => {
+			headRow.createEl('th', { text });
+		});
+
+		const body = table.createEl('tbody');
+		for (const row of rows) {
+			const tr = body.createEl('tr');
+			tr.createEl('td', { text: row.label, cls: 'opencode-usage-label' });
+			tr.createEl('td', { text: String(row.steps) });
+			tr.createEl('td', { text: this.formatTokens(row.input) });
+			tr.createEl('td', { text: this.formatTokens(row.output) });
+			tr.createEl('td', { text: this.formatTokens(row.reasoning) });
+			tr.createEl('td', { text: `${this.formatTokens(row.cacheRead)} / ${this.formatTokens(row.cacheWrite)}` });
+			tr.createEl('td', { text: this.formatCost(row.cost) });
+		}
+	}
+
+	private groupBy(records: UsageRecord[], key: (record: UsageRecord) => string): UsageRow[] {
+		const groups = new Map<string, UsageRecord[]>();
+		for (const record of records) {
+			const label = key(record);
+			groups.set(label, [...(groups.get(label) || []), record]);
+		}
+		return Array.from(groups, ([label, group]) => this.sum(label, group))
+			.sort((a, b) => b.cost - a.cost);
+	}
+
+	private sum(label: string, records: UsageRecord[]): UsageRow {
+		const row: UsageRow = { label, steps: 0, input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, cost: 0 };
+		for (const record of records) {
+			row.steps++;
+			row.input += record.input;
+			row.output += record.output;
+			row.reasoning += record.reasoning;
+			row.cacheRead += record.cacheRead;
+			row.cacheWrite += record.cacheWrite;
+			row.cost += record.cost;
+		}
+		return row;
+	}
+
+	private formatTokens(count: number): string {
+		if (count >= 1000000) return `${(count / 1000000).toFixed(1)}M`;
+		if (count >= 1000) return `${(count / 1000).toFixed(1)}k`;
+		return String(count);
+	}
+
+	private formatCost(cost: number): string {
+		return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+	}
+
+	async onClose(): Promise<void> {
+		this.plugin.processManager?.off('usage', this.refreshOnStep);
+	}
+}
@@ -1,17 +1,35 @@
-import { Plugin, WorkspaceLeaf, TFile } from 'obsidian';
-import { OpenCodeSettings, DEFAULT_SETTINGS } from './types';
+import { Plugin, WorkspaceLeaf, Menu, Notice, MarkdownView, TAbstractFile, TFile, TFolder, Vault } from 'obsidian';
+import { OpenCodeSettings, DEFAULT_SETTINGS, Provider, ContextAttachment, TerminalState, StepFinishEvent } from './types';
 import { OpenCodeSettingTab } from './SettingsTab';
 import { ProcessManager } from './ProcessManager';
 import { ConversationStore } from './ConversationStore';
 import { TerminalView, VIEW_TYPE_OPENCODE_TERMINAL } from './TerminalView';
+import { OpenCodeChatView, VIEW_TYPE_OPENCODE_CHAT } from './ChatView';
+import { CheckpointManager } from './CheckpointManager';
+import { CheckpointModal } from './CheckpointModal';
+import { ConversationExporter } from './ConversationExporter';
+import { HistorySearchModal } from './HistorySearchModal';
+import { UsageView, VIEW_TYPE_OPENCODE_USAGE } from './UsageView';
+import { EditorAssist } from './EditorAssist';
+import { ConfirmModal } from './ConfirmModal';
+import { InstructionModal } from './InstructionModal';
+import { TerminalSetupModal } from './TerminalSetupModal';
+import { TerminalHistory } from './TerminalHistory';
+
+// Folder attachments above these limits ask for confirmation first
+const MAX_CONTEXT_FILES = 100;
+const MAX_CONTEXT_BYTES = 2 * 1024 * 1024;
 
 export default class OpenCodePlugin extends Plugin {
 	settings: OpenCodeSettings;
 	processManager: ProcessManager | null = null;
 	conversationStore: ConversationStore;
+	checkpointManager: CheckpointManager;
+	editorAssist: EditorAssist;
+	terminalHistory: TerminalHistory;
 
 	async onload(): Promise<void> {
-		console.log('Loading Master of OpenCode plugin (Terminal Mode)');
+		console.log('Loading Master of OpenCode plugin');
 
 		await this.loadSettings();
 
@@ -19,26 +37,282 @@ export default class OpenCodePlugin extends Plugin {
 		await this.conversationStore.load();
 
 		const vaultPath = (this.app.vault.adapter as any).basePath;
-		// Keep ProcessManager for settings/utility but not for chat execution in this mode
+		// Shared by the chat and terminal views so both use the same model and session
 		this.processManager = new ProcessManager(this.settings, vaultPath);
+		// Recorded here rather than in a view so runs count without the chat open
+		this.processManager.on('usage', (event: StepFinishEvent, model: string, oneOff: boolean) => {
+			const conversationId = oneOff ? null : this.conversationStore.getActiveConversation()?.id || null;
+			this.conversationStore.addUsage(conversationId, event, model);
+		});
+
+		this.checkpointManager = new CheckpointManager(this);
+		await this.checkpointManager.load();
+
+		this.editorAssist = new EditorAssist(this);
+
+		this.terminalHistory = new TerminalHistory(this);
+		await this.terminalHistory.prune();
+
+		this.registerHoverLinkSource(VIEW_TYPE_OPENCODE_TERMINAL, {
+			display: 'OpenCode terminal',
+			defaultMod: false
+		});
 
 		this.registerView(
 			VIEW_TYPE_OPENCODE_TERMINAL,
 			(leaf) => new TerminalView(leaf, this)
 		);
 
-		this.addRibbonIcon('terminal', 'Open OpenCode', async () => {
-			await this.activateView();
+		this.registerView(
+			VIEW_TYPE_OPENCODE_CHAT,
+			(leaf) => new OpenCodeChatView(leaf, this)
+		);
+
+		this.registerView(
+			VIEW_TYPE_OPENCODE_USAGE,
+			(leaf) => new UsageView(leaf, this)
+		);
+
+		this.addRibbonIcon('terminal', 'Open OpenCode', (evt: MouseEvent) => {
+			const menu = new Menu();
+			menu.addItem(item => item
+				.setTitle('Open OpenCode Chat')
+				.setIcon('message-square')
+				.onClick(() => this.activateView(VIEW_TYPE_OPENCODE_CHAT)));
+			menu.addItem(item => item
+				.setTitle('Open OpenCode Terminal')
+				.setIcon('terminal-square')
+				.onClick(() => this.activateView(VIEW_TYPE_OPENCODE_TERMINAL)));
+			menu.addItem(item => item
+				.setTitle('Open Usage Dashboard')
+				.setIcon('bar-chart-2')
+				.onClick(() => this.activateView(VIEW_TYPE_OPENCODE_USAGE)));
+			menu.showAtMouseEvent(evt);
 		});
 
 		this.addCommand({
 			id: 'open-opencode-terminal',
 			name: 'Open OpenCode Terminal',
 			callback: async () => {
-				await this.activateView();
+				await this.activateView(VIEW_TYPE_OPENCODE_TERMINAL);
+			}
+		});
+
+		this.addCommand({
+			id: 'open-opencode-chat',
+			name: 'Open OpenCode Chat',
+			callback: async () => {
+				await this.activateView(VIEW_TYPE_OPENCODE_CHAT);
+			}
+		});
+
+		this.addCommand({
+			id: 'continue-session-in-chat',
+			name: 'Continue latest session in Chat',
+			callback: async () => {
+				await this.continueInChat();
+			}
+		});
+
+		this.addCommand({
+			id: 'continue-session-in-terminal',
+			name: 'Continue current session in Terminal',
+			callback: async () => {
+				await this.continueInTerminal();
 			}
 		});
 
+		this.addCommand({
+			id: 'abort-current-run',
+			name: 'Abort current run',
+			checkCallback: (checking: boolean) => {
+				if (!this.processManager?.getState().isRunning) {
+					return false;
+				}
+				if (!checking) {
+					this.processManager.abort();
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'export-conversation',
+			name: 'Export conversation to note',
+			callback: async () => {
+				await this.exportActiveConversation();
+			}
+		});
+
+		this.addCommand({
+			id: 'manage-checkpoints',
+			name: 'Manage vault checkpoints',
+			callback: () => {
+				new CheckpointModal(this.app, this).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'search-conversations',
+			name: 'Search conversation history',
+			callback: () => {
+				new HistorySearchModal(this.app, this).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'open-usage-dashboard',
+			name: 'Open usage dashboard',
+			callback: async () => {
+				await this.activateView(VIEW_TYPE_OPENCODE_USAGE);
+			}
+		});
+
+		this.addCommand({
+			id: 'show-conversation-forks',
+			name: 'Show conversation forks',
+			callback: async () => {
+				const leaf = await this.activateView(VIEW_TYPE_OPENCODE_CHAT);
+				if (leaf?.view instanceof OpenCodeChatView) {
+					leaf.view.showForkTree();
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'run-prompt-template',
+			name: 'Run prompt template',
+			callback: async () => {
+				const leaf = await this.activateView(VIEW_TYPE_OPENCODE_CHAT);
+				if (leaf?.view instanceof OpenCodeChatView) {
+					leaf.view.showTemplatePicker();
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'explain-selection',
+			name: 'Explain selection',
+			editorCallback: (editor, view) => {
+				if (view instanceof MarkdownView) this.editorAssist.run('explain', editor, view);
+			}
+		});
+
+		this.addCommand({
+			id: 'rewrite-selection',
+			name: 'Rewrite selection…',
+			editorCallback: (editor, view) => {
+				if (view instanceof MarkdownView) this.editorAssist.run('rewrite', editor, view);
+			}
+		});
+
+		this.addCommand({
+			id: 'continue-writing',
+			name: 'Continue writing here',
+			editorCallback: (editor, view) => {
+				if (view instanceof MarkdownView) this.editorAssist.run('continue', editor, view);
+			}
+		});
+
+		this.addCommand({
+			id: 'fix-code-block',
+			name: 'Fix code block',
+			editorCallback: (editor, view) => {
+				if (view instanceof MarkdownView) this.editorAssist.run('fix-code', editor, view);
+			}
+		});
+
+		this.addCommand({
+			id: 'new-opencode-terminal',
+			name: 'New terminal',
+			callback: () => this.newTerminal()
+		});
+
+		this.addCommand({
+			id: 'rename-opencode-terminal',
+			name: 'Rename terminal',
+			checkCallback: (checking: boolean) => {
+				const terminal = this.getActiveTerminal();
+				if (!terminal) return false;
+				if (!checking) {
+					new InstructionModal(this.app, 'Rename terminal', 'Title', terminal.getDisplayText(), 'Rename')
+						.prompt()
+						.then(title => title && terminal.rename(title));
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'configure-opencode-terminal',
+			name: 'Configure terminal model and folder',
+			checkCallback: (checking: boolean) => {
+				const terminal = this.getActiveTerminal();
+				if (!terminal) return false;
+				if (!checking) {
+					this.configureTerminal(terminal);
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'cycle-opencode-terminals',
+			name: 'Switch to next terminal',
+			checkCallback: (checking: boolean) => {
+				const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_OPENCODE_TERMINAL);
+				if (leaves.length === 0) return false;
+				if (!checking) {
+					const current = leaves.findIndex(leaf => leaf.view === this.getActiveTerminal());
+					const next = leaves[(current + 1) % leaves.length];
+					this.app.workspace.revealLeaf(next);
+					this.app.workspace.setActiveLeaf(next, { focus: true });
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'interrupt-opencode-terminal',
+			name: 'Interrupt terminal (Ctrl-C)',
+			checkCallback: (checking: boolean) => {
+				const terminal = this.getActiveTerminal();
+				if (!terminal) return false;
+				if (!checking) {
+					terminal.interrupt();
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'save-terminal-transcript',
+			name: 'Save terminal transcript to note',
+			checkCallback: (checking: boolean) => {
+				const terminal = this.getActiveTerminal();
+				if (!terminal) return false;
+				if (!checking) {
+					terminal.saveTranscript();
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'close-opencode-terminal',
+			name: 'Close terminal',
+			checkCallback: (checking: boolean) => {
+				const terminal = this.getActiveTerminal();
+				if (!terminal) return false;
+				if (!checking) {
+					terminal.leaf.detach();
+				}
+				return true;
+			}
+		});
+
+		this.registerContextMenus();
+
 		this.addSettingTab(new OpenCodeSettingTab(this.app, this));
 
 		console.log('Master of OpenCode plugin loaded');
@@ -46,7 +320,12 @@ export default class OpenCodePlugin extends Plugin {
 
 	async onunload(): Promise<void> {
 		console.log('Unloading Master of OpenCode plugin');
-		this.app.workspace.detachLeavesOfType(VIEW_TYPE_OPENCODE_TERMINAL);
+		this.editorAssist?.close();
+		await this.processManager?.dispose();
+		await this.conversationStore.save();
+		// Terminal leaves stay in the layout so they come back with their state on restart
+		this.app.workspace.detachLeavesOfType(VIEW_TYPE_OPENCODE_CHAT);
+		this.app.workspace.detachLeavesOfType(VIEW_TYPE_OPENCODE_USAGE);
 	}
 
 	async loadSettings(): Promise<void> {
@@ -58,13 +337,212 @@ export default class OpenCodePlugin extends Plugin {
 		if (this.processManager) {
 			this.processManager.updateSettings(this.settings);
 		}
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_OPENCODE_TERMINAL)) {
+			if (leaf.view instanceof TerminalView) {
+				leaf.view.applyAppearance();
+			}
+		}
+	}
+
+	/**
+	 * Checks this month's spend against the budget. Returns false when new
+	 * runs should be blocked; `onBlocked` shows why, a notice by default.
+	 */
+	checkBudget(onBlocked: (message: string) => void = message => new Notice(message)): boolean {
+		const { monthlyBudget, budgetAction } = this.settings;
+		if (!monthlyBudget || monthlyBudget <= 0) return true;
+
+		const spent = this.conversationStore.getMonthlyCost();
+		if (spent < monthlyBudget) return true;
+
+		const summary = `$${spent.toFixed(2)} of your $${monthlyBudget.toFixed(2)} monthly budget used`;
+		if (budgetAction === 'block') {
+			onBlocked(`💸 Monthly budget reached (${summary}). Raise the budget in settings to keep sending.`);
+			return false;
+		}
+		new Notice(`💸 Monthly budget exceeded: ${summary}`);
+		return true;
+	}
+
+	async setModel(model: string): Promise<void> {
+		this.settings.model = model;
+		const [provider] = model.split('/');
+		this.settings.provider = provider as Provider;
+		await this.saveSettings();
+	}
+
+	async exportActiveConversation(): Promise<void> {
+		const conversation = this.conversationStore.getActiveConversation();
+		if (!conversation || conversation.messages.length === 0) {
+			new Notice('No conversation to export');
+			return;
+		}
+
+		try {
+			const file = await new ConversationExporter(this.app, this.settings).export(conversation);
+			new Notice(`Exported conversation to ${file.path}`);
+			await this.app.workspace.getLeaf(true).openFile(file);
+		} catch (error) {
+			new Notice(`Failed to export conversation: ${error instanceof Error ? error.message : error}`);
+		}
+	}
+
+	/**
+	 * The focused terminal, or the first one open.
+	 */
+	getActiveTerminal(): TerminalView | null {
+		const active = this.app.workspace.getActiveViewOfType(TerminalView);
+		if (active) return active;
+		const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_OPENCODE_TERMINAL)[0];
+		return leaf?.view instanceof TerminalView ? leaf.view : null;
+	}
+
+	/**
+	 * Asks for a title, model and folder, then opens another terminal tab
+	 * next to the existing ones with its own OpenCode process.
+	 */
+	newTerminal(defaults: TerminalState = {}): void {
+		const count = this.app.workspace.getLeavesOfType(VIEW_TYPE_OPENCODE_TERMINAL).length;
+		const state: TerminalState = { title: `Terminal ${count + 1}`, shareSession: false, ...defaults };
+
+		new TerminalSetupModal(this.app, this, state, 'Open', async (result) => {
+			const leaf = this.app.workspace.getRightLeaf(false);
+			if (!leaf) return;
+			await leaf.setViewState({
+				type: VIEW_TYPE_OPENCODE_TERMINAL,
+				active: true,
+				state: { ...result }
+			});
+			this.app.workspace.revealLeaf(leaf);
+		}).open();
+	}
+
+	configureTerminal(terminal: TerminalView): void {
+		new TerminalSetupModal(this.app, this, terminal.getTerminalState(), 'Restart', (state) => {
+			terminal.configure(state);
+		}).open();
+	}
+
+	async continueInTerminal(): Promise<void> {
+		const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_OPENCODE_TERMINAL).length > 0;
+		const leaf = await this.activateView(VIEW_TYPE_OPENCODE_TERMINAL);
+		// A freshly opened terminal already starts on the shared session
+		if (existing && leaf?.view instanceof TerminalView) {
+			await leaf.view.continueSession();
+		}
+	}
+
+	async continueInChat(): Promise<void> {
+		const sessionID = await this.processManager?.getLatestSessionID();
+		const leaf = await this.activateView(VIEW_TYPE_OPENCODE_CHAT);
+		if (!sessionID) {
+			new Notice('No OpenCode session found to continue');
+			return;
+		}
+		if (leaf?.view instanceof OpenCodeChatView) {
+			leaf.view.continueSession(sessionID);
+		}
+	}
+
+	private registerContextMenus(): void {
+		this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+			menu.addItem(item => item
+				.setTitle('Ask OpenCode about…')
+				.setIcon('message-square')
+				.onClick(() => this.sendToChat([file])));
+			if (file instanceof TFolder) {
+				menu.addItem(item => item
+					.setTitle('Summarize folder')
+					.setIcon('list')
+					.onClick(() => this.sendToChat([file], 'Summarize the notes in this folder.')));
+				menu.addItem(item => item
+					.setTitle('Open OpenCode terminal here')
+					.setIcon('terminal-square')
+					.onClick(() => this.newTerminal({ folder: file.isRoot() ? '' : file.path })));
+			}
+		}));
+
+		this.registerEvent(this.app.workspace.on('files-menu', (menu, files) => {
+			menu.addItem(item => item
+				.setTitle('Ask OpenCode about…')
+				.setIcon('message-square')
+				.onClick(() => this.sendToChat(files)));
+			menu.addItem(item => item
+				.setTitle('Refactor these notes')
+				.setIcon('wand')
+				.onClick(() => this.sendToChat(files, 'Refactor these notes: ')));
+		}));
+
+		this.registerEvent(this.app.workspace.on('editor-menu', (menu, editor, view) => {
+			const file = view.file;
+			if (!file) return;
+			const selection = editor.getSelection();
+			menu.addItem(item => item
+				.setTitle(selection ? 'Ask OpenCode about selection' : 'Ask OpenCode about this note')
+				.setIcon('message-square')
+				.onClick(() => this.sendToChat([file], selection
+					? `${selection.split('\n').map(line => `> ${line}`).join('\n')}\n\n`
+					: undefined)));
+		}));
+	}
+
+	/**
+	 * Opens the chat with the given files and folders attached as context,
+	 * after confirming if they add up to a large amount of text.
+	 */
+	async sendToChat(entries: TAbstractFile[], prompt?: string): Promise<void> {
+		let fileCount = 0;
+		let totalSize = 0;
+		const countFile = (file: TAbstractFile) => {
+			if (file instanceof TFile) {
+				fileCount++;
+				totalSize += file.stat.size;
+			}
+		};
+		for (const entry of entries) {
+			if (entry instanceof TFolder) {
+				Vault.recurseChildren(entry, countFile);
+			} else {
+				countFile(entry);
+			}
+		}
+
+		const attachments: ContextAttachment[] = entries.map(entry => ({
+			type: entry instanceof TFolder ? 'folder' : 'file',
+			path: entry.path
+		}));
+		const open = async () => {
+			const leaf = await this.activateView(VIEW_TYPE_OPENCODE_CHAT);
+			if (leaf?.view instanceof OpenCodeChatView) {
+				await leaf.view.attachContext(attachments, prompt);
+			}
+		};
+
+		if (fileCount > MAX_CONTEXT_FILES || totalSize > MAX_CONTEXT_BYTES) {
+			const size = (totalSize / 1024 / 1024).toFixed(1);
+			new ConfirmModal(
+				this.app,
+				`This attaches ${fileCount} files (${size} MB). Reading them can use a lot of tokens. Continue?`,
+				'Attach Anyway',
+				open
+			).open();
+			return;
+		}
+		await open();
+	}
+
+	async revealMessage(conversationId: string, messageId: string): Promise<void> {
+		const leaf = await this.activateView(VIEW_TYPE_OPENCODE_CHAT);
+		if (leaf?.view instanceof OpenCodeChatView) {
+			await leaf.view.revealMessage(conversationId, messageId);
+		}
 	}
 
-	async activateView(): Promise<void> {
+	async activateView(viewType: string = VIEW_TYPE_OPENCODE_TERMINAL): Promise<WorkspaceLeaf | null> {
 		const { workspace } = this.app;
 
 		let leaf: WorkspaceLeaf | null = null;
-		const leaves = workspace.getLeavesOfType(VIEW_TYPE_OPENCODE_TERMINAL);
+		const leaves = workspace.getLeavesOfType(viewType);
 
 		if (leaves.length > 0) {
 			leaf = leaves[0];
@@ -72,7 +550,7 @@ export default class OpenCodePlugin extends Plugin {
 			leaf = workspace.getRightLeaf(false);
 			if (leaf) {
 				await leaf.setViewState({
-					type: VIEW_TYPE_OPENCODE_TERMINAL,
+					type: viewType,
 					active: true
 				});
 			}
@@ -81,5 +559,6 @@ export default class OpenCodePlugin extends Plugin {
 		if (leaf) {
 			workspace.revealLeaf(leaf);
 		}
+		return leaf;
 	}
 }
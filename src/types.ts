@@ -1,6 +1,9 @@
 export type Provider = 'default' | 'anthropic' | 'openai' | 'google' | 'xai' | 'opencode' | 'ollama' | 'custom';
 export type ExecutionMode = 'spawn' | 'server';
 export type Theme = 'adaptive' | 'dark' | 'light';
+export type ToolStatus = 'pending' | 'running' | 'completed' | 'error' | 'cancelled';
+export type ToolReview = 'accepted' | 'reverted';
+export type BudgetAction = 'warn' | 'block';
 
 export interface OpenCodeSettings {
 	provider: Provider;
@@ -11,8 +14,29 @@ export interface OpenCodeSettings {
 	serverPort: number;
 	opencodePath: string;
 	theme: Theme;
+	// Empty uses Obsidian's monospace font
+	terminalFontFamily: string;
+	terminalFontSize: number;
+	terminalLineHeight: number;
 	notifications: boolean;
 	favoriteModels: string[];
+	checkpointsEnabled: boolean;
+	exportFolder: string;
+	exportFilenameTemplate: string;
+	archiveAfterDays: number;
+	autoCompact: boolean;
+	monthlyBudget: number;
+	budgetAction: BudgetAction;
+	agent: string;
+	customCommands: CustomCommand[];
+	templatesFolder: string;
+}
+
+export interface CustomCommand {
+	name: string;
+	description: string;
+	// Supports {{selection}}, {{activeNote}}, {{date}} and {{args}}
+	template: string;
 }
 
 export const DEFAULT_SETTINGS: OpenCodeSettings = {
@@ -24,24 +48,111 @@ export const DEFAULT_SETTINGS: OpenCodeSettings = {
 	serverPort: 3000,
 	opencodePath: '',
 	theme: 'adaptive',
+	terminalFontFamily: '',
+	terminalFontSize: 12,
+	terminalLineHeight: 1,
 	notifications: true,
 	favoriteModels: [
 		'anthropic/claude-sonnet-4-5',
 		'xai/grok-4-1-fast',
 		'google/gemini-3-pro-high'
-	]
+	],
+	checkpointsEnabled: true,
+	exportFolder: 'OpenCode Chats',
+	exportFilenameTemplate: '{{date}} {{title}}',
+	archiveAfterDays: 30,
+	autoCompact: false,
+	monthlyBudget: 0,
+	budgetAction: 'warn',
+	agent: '',
+	customCommands: [
+		{
+			name: 'summarize',
+			description: 'Summarize the active note',
+			template: 'Summarize the note {{activeNote}} in a few bullet points.'
+		}
+	],
+	templatesFolder: 'OpenCode Templates'
 };
 
 export interface ChatMessage {
 	id: string;
-	role: 'user' | 'assistant' | 'system' | 'tool';
+	role: 'user' | 'assistant' | 'reasoning' | 'system' | 'tool';
 	content: string;
 	timestamp: Date;
 	toolName?: string;
-	toolStatus?: 'pending' | 'running' | 'completed' | 'error';
+	toolCallID?: string;
+	toolStatus?: ToolStatus;
 	toolInput?: Record<string, unknown>;
 	toolOutput?: string;
 	toolTitle?: string;
+	toolReview?: ToolReview;
+	interrupted?: boolean;
+	// On user messages: every generated response to this prompt, one entry per regeneration
+	responseVersions?: ChatMessage[][];
+	activeVersion?: number;
+	// On system messages: summary that replaces the turns before it when seeding a session
+	compaction?: string;
+	// On user messages: vault references attached with @-mentions
+	context?: ContextAttachment[];
+	// On user messages: files passed to OpenCode as attachments
+	files?: FileAttachment[];
+}
+
+export interface FileAttachment {
+	// Absolute path on disk
+	path: string;
+	name: string;
+	mime: string;
+}
+
+export type ContextAttachmentType = 'file' | 'folder' | 'heading' | 'block';
+
+export interface ContextAttachment {
+	type: ContextAttachmentType;
+	path: string;
+	// Heading text or block ID for section references
+	subpath?: string;
+	// Resolved text of heading and block references
+	content?: string;
+}
+
+// Per-prompt overrides of the model and agent settings
+export interface PromptOptions {
+	model?: string;
+	agent?: string;
+}
+
+// Per-terminal configuration, kept in the leaf's view state
+export interface TerminalState {
+	// Names the terminal's saved history
+	id?: string;
+	title?: string;
+	// Empty follows the plugin model
+	model?: string;
+	// Vault-relative working folder; empty is the vault root
+	folder?: string;
+	// Start on the session shared with the chat view (default)
+	shareSession?: boolean;
+}
+
+export interface TerminalRun {
+	startedAt: number;
+	endedAt?: number;
+	model: string;
+	folder: string;
+	exitCode?: number | null;
+	signal?: string | null;
+	// Raw PTY output, grouped by when it arrived
+	output: { time: number; text: string }[];
+	truncated?: boolean;
+}
+
+export interface TerminalHistoryData {
+	savedAt: number;
+	// Plain-text lines of the xterm buffer when the terminal was last saved
+	scrollback: string[];
+	runs: TerminalRun[];
 }
 
 export interface ProcessState {
@@ -58,11 +169,35 @@ export interface Conversation {
 	sessionID: string | null;
 	createdAt: number;
 	updatedAt: number;
+	model?: string;
+	// Totals of usageLog
+	usage?: ConversationUsage;
+	usageLog?: UsageRecord[];
+	// Set on forks: the conversation and message they branched from
+	parentId?: string;
+	forkedFromMessageId?: string;
+	// A fork has no OpenCode session yet; its first prompt carries the copied history
+	seedPending?: boolean;
+}
+
+export interface ConversationUsage {
+	input: number;
+	output: number;
+	reasoning: number;
+	cacheRead: number;
+	cacheWrite: number;
+	cost: number;
+}
+
+export interface UsageRecord extends ConversationUsage {
+	timestamp: number;
+	model: string;
 }
 
 export interface ToolEvent {
 	name: string;
-	status: 'pending' | 'running' | 'completed' | 'error';
+	callID: string;
+	status: ToolStatus;
 	title?: string;
 	input?: Record<string, unknown>;
 	output?: string;